@@ -2,9 +2,153 @@
 pragma solidity ^0.8.0;
 
 import '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+import '@openzeppelin/contracts/governance/TimelockController.sol';
+import '@openzeppelin/contracts/access/Ownable2Step.sol';
+import '@openzeppelin/contracts/access/AccessControl.sol';
 
 contract TestERC20 is ERC20 {
     constructor(string memory _symbol, string memory _name)
     ERC20(_name, _symbol)
     {}
-}
\ No newline at end of file
+}
+library TestLibrary {
+    function double(uint256 _value) public pure returns (uint256) {
+        return _value * 2;
+    }
+}
+
+contract TestLinked {
+    function double(uint256 _value) external pure returns (uint256) {
+        return TestLibrary.double(_value);
+    }
+}
+
+// minimal ERC1967 proxy & UUPS implementation (the OpenZeppelin ones need a newer compiler)
+contract TestProxy {
+    bytes32 internal constant IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+    constructor(address _implementation, bytes memory _data) {
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _implementation)
+        }
+        if (_data.length > 0) {
+            (bool success, ) = _implementation.delegatecall(_data);
+            require(success, 'init failed');
+        }
+    }
+
+    fallback() external payable {
+        assembly {
+            let implementation := sload(IMPLEMENTATION_SLOT)
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), implementation, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
+
+contract TestUpgradeable {
+    bytes32 internal constant IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+    uint256 public value;
+
+    function initialize(uint256 _value) external {
+        value = _value;
+    }
+
+    function version() external pure virtual returns (uint256) {
+        return 1;
+    }
+
+    function upgradeToAndCall(address _implementation, bytes calldata _data) external payable {
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _implementation)
+        }
+        if (_data.length > 0) {
+            (bool success, ) = _implementation.delegatecall(_data);
+            require(success, 'call failed');
+        }
+    }
+}
+
+contract TestUpgradeableV2 is TestUpgradeable {
+    function version() external pure override returns (uint256) {
+        return 2;
+    }
+}
+
+contract TestAccess is Ownable2Step, AccessControl {
+    bytes32 public constant MINTER_ROLE = keccak256('MINTER_ROLE');
+
+    constructor() Ownable(msg.sender) {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(MINTER_ROLE, msg.sender);
+    }
+}
+
+contract TestAccessEnumerable is TestAccess {
+    mapping(bytes32 => address[]) private members;
+
+    function getRoleMemberCount(bytes32 _role) external view returns (uint256) {
+        return members[_role].length;
+    }
+
+    function getRoleMember(bytes32 _role, uint256 _index) external view returns (address) {
+        return members[_role][_index];
+    }
+
+    function _grantRole(bytes32 _role, address _account) internal override returns (bool) {
+        bool granted = super._grantRole(_role, _account);
+        if (granted) members[_role].push(_account);
+        return granted;
+    }
+
+    function _revokeRole(bytes32 _role, address _account) internal override returns (bool) {
+        bool revoked = super._revokeRole(_role, _account);
+        address[] storage list = members[_role];
+        for (uint256 n = 0; revoked && n < list.length; n++) {
+            if (list[n] == _account) {
+                list[n] = list[list.length - 1];
+                list.pop();
+                break;
+            }
+        }
+        return revoked;
+    }
+}
+
+contract TestMulticall {
+    struct Call {
+        address target;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function tryAggregate(bool _requireSuccess, Call[] calldata _calls) external returns (Result[] memory results) {
+        results = new Result[](_calls.length);
+        for (uint256 n = 0; n < _calls.length; n++) {
+            (bool success, bytes memory returnData) = _calls[n].target.call(_calls[n].callData);
+            require(!_requireSuccess || success, 'call failed');
+            results[n] = Result(success, returnData);
+        }
+    }
+}
+
+contract TestSafe {
+    uint256 public nonce;
+
+    function setNonce(uint256 _nonce) external {
+        nonce = _nonce;
+    }
+}
@@ -24,6 +24,11 @@ const config: HardhatUserConfig = {
                         runs: 200,
                     },
                     evmVersion: 'paris',
+                    outputSelection: {
+                        '*': {
+                            '*': ['storageLayout'],
+                        },
+                    },
                 },
             },
         ],
@@ -37,7 +42,11 @@ const config: HardhatUserConfig = {
             throwOnTransactionFailures: true,
             throwOnCallFailures: true,
             allowUnlimitedContractSize: true,
-        }
+        },
+        localhost: {
+            url: 'http://127.0.0.1:8545',
+            chainId: 31337,
+        },
     },
     mocha: { timeout: 12000000 },
     contractSizer: {
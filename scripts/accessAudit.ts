@@ -0,0 +1,294 @@
+import chalk from 'chalk';
+
+import { Contract, ZeroAddress, ZeroHash, getAddress, id, isAddress } from 'ethers';
+import hre from 'hardhat';
+import '@nomicfoundation/hardhat-ethers';
+
+import { loadJsonOrYaml } from './cmdUtils';
+import type { DeployHelper } from './deployHelpers';
+import { ICallWithReference, MULTICALL3_ADDRESS, Multicall } from './multicall';
+
+export interface AccessRoleExpectation {
+  members?: string[]; // complete list of accounts holding the role
+  admin?: string; // role name or bytes32
+}
+
+// accounts are addresses, ${<contract id>}, ${config.<key>} or ${deployer}, null is the zero address (renounced / none)
+export interface AccessContractExpectation {
+  owner?: string | null;
+  pendingOwner?: string | null;
+  roles?: Record<string, AccessRoleExpectation>; // role name (DEFAULT_ADMIN_ROLE or hashed like in solidity) or bytes32
+}
+
+export interface AccessExpectations {
+  config?: Record<string, Record<string, any>>; // 'default' & values per chain id
+  contracts: Record<string, AccessContractExpectation>; // by deployment id
+}
+
+export interface AccessAuditOptions {
+  multicall?: string; // default: MULTICALL3_ADDRESS
+  batchSize?: number; // calls per multicall, default: 500
+}
+
+export enum AccessCheckKind {
+  Owner = 'owner',
+  PendingOwner = 'pendingOwner',
+  RoleAdmin = 'roleAdmin',
+  RoleMembers = 'roleMembers',
+}
+
+export interface AccessCheckResult {
+  id: string;
+  kind: AccessCheckKind;
+  role?: string; // as named in the expectations
+  expected: string[];
+  actual: string[] | null; // null: not readable (e.g. not Ownable / AccessControl)
+  missing: string[];
+  unexpected: string[];
+  passed: boolean;
+  partial: boolean; // role not enumerable, only known accounts were checked
+}
+
+export interface AccessAuditReport {
+  chainId: number;
+  passed: boolean;
+  partial: boolean; // some member lists couldn't be read completely
+  checks: AccessCheckResult[];
+}
+
+const ACCESS_ABI = [
+  'function owner() view returns (address)',
+  'function pendingOwner() view returns (address)',
+  'function getRoleAdmin(bytes32 role) view returns (bytes32)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function getRoleMemberCount(bytes32 role) view returns (uint256)',
+  'function getRoleMember(bytes32 role, uint256 index) view returns (address)',
+];
+
+const DEFAULT_ADMIN_ROLE_NAME = 'DEFAULT_ADMIN_ROLE';
+const DEFAULT_BATCH_SIZE = 500;
+
+/////////////////
+// Load
+/////////////////
+
+// .json or .yaml / .yml (needs js-yaml)
+export const loadAccessExpectations = (_file: string): AccessExpectations => {
+  return loadJsonOrYaml<AccessExpectations>(_file, 'expectations');
+};
+
+/////////////////
+// Audit
+/////////////////
+
+// reads owners & roles of all expected contracts in bulk and compares them, nothing is sent
+export const auditAccess = async (
+  _deploy: DeployHelper,
+  _expectations: AccessExpectations | string,
+  _options?: AccessAuditOptions
+): Promise<AccessAuditReport> => {
+  const expectations = typeof _expectations === 'string' ? loadAccessExpectations(_expectations) : _expectations;
+  const config = {
+    ...(expectations.config?.default ?? {}),
+    ...(expectations.config?.[`${_deploy.chainId}`] ?? {}),
+  };
+  const deployments = _deploy.getDeployments().filter(d => d.address !== undefined);
+  const deployer = await _deploy.getDeployerAddress();
+
+  // resolve accounts & roles
+  const errors: string[] = [];
+  const resolveAccount = (_id: string, _value: string | null): string => {
+    if (_value === null) return ZeroAddress;
+    const ref = /^\$\{([^}]+)\}$/.exec(_value)?.[1].trim();
+    let address: string | undefined = _value;
+    if (ref === 'deployer') address = deployer;
+    else if (ref?.startsWith('config.')) address = config[ref.slice('config.'.length)];
+    else if (ref !== undefined) address = deployments.find(d => d.id === ref)?.address;
+    if (address === undefined || !isAddress(address)) {
+      errors.push(`Unresolved account [${_value}] in [${_id}]`);
+      return ZeroAddress;
+    }
+    return getAddress(address);
+  };
+  const contracts = Object.entries(expectations.contracts ?? {}).map(([contractId, c]) => {
+    const address = deployments.find(d => d.id === contractId)?.address;
+    if (address === undefined) errors.push(`Unknown contract [${contractId}]`);
+    return {
+      id: contractId,
+      address: address ?? ZeroAddress,
+      owner: c.owner !== undefined ? resolveAccount(contractId, c.owner) : undefined,
+      pendingOwner: c.pendingOwner !== undefined ? resolveAccount(contractId, c.pendingOwner) : undefined,
+      roles: Object.entries(c.roles ?? {}).map(([name, r]) => ({
+        name,
+        hash: getRoleHash(name),
+        admin: r.admin !== undefined ? getRoleHash(r.admin) : undefined,
+        adminName: r.admin,
+        members: r.members?.map(m => resolveAccount(contractId, m)),
+      })),
+    };
+  });
+  if (errors.length > 0) {
+    for (const e of errors) _deploy.error(`- ${e}`);
+    throw new Error(`Invalid access expectations (${errors.length} errors)`);
+  }
+
+  // without enumeration, only known accounts can be checked for roles they should not have
+  const candidates = uniqueAccounts([
+    deployer,
+    ...deployments.map(d => getAddress(d.address!)),
+    ...contracts.flatMap(c => c.roles.flatMap(r => r.members ?? [])),
+    ...Object.values(config).filter(v => typeof v === 'string' && isAddress(v)),
+  ]);
+
+  // read owners, admins & member counts
+  const multicallAddress = _options?.multicall ?? MULTICALL3_ADDRESS;
+  if ((await hre.ethers.provider.getCode(multicallAddress)) === '0x')
+    throw new Error(`No multicall contract at [${multicallAddress}]`);
+  const multicall = new Multicall(hre.ethers.provider, multicallAddress);
+  const batchSize = _options?.batchSize ?? DEFAULT_BATCH_SIZE;
+  const instances = new Map(contracts.map(c => [c.id, new Contract(c.address, ACCESS_ABI, hre.ethers.provider)]));
+  const read = await multicall.callWithReference(
+    contracts.map(c => {
+      const target = instances.get(c.id)!;
+      const reference = Multicall.createReference(c.id, []);
+      if (c.owner !== undefined) reference.calls.push(Multicall.createTopicCall('owner', target, 'owner', []));
+      if (c.pendingOwner !== undefined)
+        reference.calls.push(Multicall.createTopicCall('pendingOwner', target, 'pendingOwner', []));
+      c.roles.forEach((r, i) => {
+        if (r.admin !== undefined)
+          reference.calls.push(Multicall.createTopicCall(`admin:${i}`, target, 'getRoleAdmin', [r.hash]));
+        if (r.members !== undefined)
+          reference.calls.push(Multicall.createTopicCall(`count:${i}`, target, 'getRoleMemberCount', [r.hash]));
+      });
+      return reference;
+    }),
+    false,
+    batchSize
+  );
+
+  // enumerable roles (AccessControlEnumerable) are listed completely, others are probed for known accounts
+  const membership: ICallWithReference[] = [];
+  for (const c of contracts) {
+    const target = instances.get(c.id)!;
+    const reference = Multicall.createReference(c.id, []);
+    c.roles.forEach((r, i) => {
+      if (r.members === undefined) return;
+      const count = read[c.id]?.[`count:${i}`];
+      if (count === null || count === undefined) {
+        for (const a of candidates)
+          reference.calls.push(Multicall.createTopicCall(`has:${i}:${a}`, target, 'hasRole', [r.hash, a]));
+      } else {
+        for (let n = 0; n < Number(count); n++)
+          reference.calls.push(Multicall.createTopicCall(`member:${i}:${n}`, target, 'getRoleMember', [r.hash, n]));
+      }
+    });
+    if (reference.calls.length > 0) membership.push(reference);
+  }
+  const members = membership.length > 0 ? await multicall.callWithReference(membership, false, batchSize) : {};
+
+  // compare
+  const checks: AccessCheckResult[] = [];
+  for (const c of contracts) {
+    const results = read[c.id] ?? {};
+    const single = (_value: string | null | undefined) => (_value === null || _value === undefined ? null : [_value]);
+    if (c.owner !== undefined) checks.push(compare(c.id, AccessCheckKind.Owner, [c.owner], single(results.owner)));
+    if (c.pendingOwner !== undefined)
+      checks.push(compare(c.id, AccessCheckKind.PendingOwner, [c.pendingOwner], single(results.pendingOwner)));
+    c.roles.forEach((r, i) => {
+      if (r.admin !== undefined)
+        checks.push(compare(c.id, AccessCheckKind.RoleAdmin, [r.admin], single(results[`admin:${i}`]), r.name));
+      if (r.members === undefined) return;
+      const count = results[`count:${i}`];
+      const probes = members[c.id] ?? {};
+      let actual: string[] | null = null;
+      if (count !== null && count !== undefined) {
+        actual = [];
+        for (let n = 0; n < Number(count); n++) actual.push(probes[`member:${i}:${n}`] ?? ZeroAddress);
+      } else if (candidates.some(a => probes[`has:${i}:${a}`] !== null)) {
+        actual = candidates.filter(a => probes[`has:${i}:${a}`] === true);
+      }
+      const partial = actual !== null && (count === null || count === undefined);
+      checks.push(compare(c.id, AccessCheckKind.RoleMembers, r.members, actual, r.name, partial));
+    });
+  }
+  const report = {
+    chainId: _deploy.chainId,
+    passed: checks.every(c => c.passed),
+    partial: checks.some(c => c.partial),
+    checks,
+  };
+
+  // log
+  const labels = new Map<string, string>();
+  for (const [k, v] of Object.entries(config))
+    if (typeof v === 'string' && isAddress(v)) labels.set(v.toLowerCase(), `config.${k}`);
+  labels.set(deployer.toLowerCase(), 'deployer');
+  for (const d of deployments) labels.set(d.address!.toLowerCase(), d.id);
+  for (const c of contracts)
+    for (const r of c.roles) {
+      labels.set(r.hash, r.name);
+      if (r.admin !== undefined) labels.set(r.admin, r.adminName!);
+    }
+  labels.set(ZeroHash, DEFAULT_ADMIN_ROLE_NAME);
+  const describe = (_values: string[]) =>
+    _values.length === 0 ? 'none' : _values.map(v => labels.get(v.toLowerCase()) ?? v).join(', ');
+  _deploy.openCategory(`Access audit [${checks.filter(c => c.passed).length}/${checks.length} passed]`);
+  for (const c of checks) {
+    const title = `[${chalk.white(c.id)}] ${c.kind}${c.role !== undefined ? ` ${c.role}` : ''}`;
+    if (c.passed && c.partial) {
+      _deploy.log(chalk.yellow(`- ${title}: ${chalk.white(describe(c.actual!))} (partial, not enumerable)`));
+      continue;
+    }
+    if (c.passed) {
+      _deploy.log(chalk.green(`- ${title}: ${chalk.white(describe(c.actual!))}`));
+      continue;
+    }
+    if (c.actual === null) _deploy.error(`- ${title}: not readable`);
+    else {
+      const details = [
+        ...(c.missing.length > 0 ? [`missing ${chalk.white(describe(c.missing))}`] : []),
+        ...(c.unexpected.length > 0 ? [`unexpected ${chalk.white(describe(c.unexpected))}`] : []),
+      ];
+      _deploy.error(`- ${title}: ${details.join(', ')}${c.partial ? ' (partial, not enumerable)' : ''}`);
+    }
+  }
+  _deploy.closeCategory();
+  return report;
+};
+
+/////////////////
+// Helpers
+/////////////////
+
+export const getRoleHash = (_role: string) => {
+  if (_role === DEFAULT_ADMIN_ROLE_NAME) return ZeroHash;
+  return /^0x[0-9a-fA-F]{64}$/.test(_role) ? _role.toLowerCase() : id(_role);
+};
+
+const uniqueAccounts = (_accounts: string[]) => [...new Set(_accounts.map(a => getAddress(a)))];
+
+const compare = (
+  _id: string,
+  _kind: AccessCheckKind,
+  _expected: string[],
+  _actual: string[] | null,
+  _role?: string,
+  _partial: boolean = false
+): AccessCheckResult => {
+  const normalize = (_values: string[]) => _values.map(v => v.toLowerCase());
+  const expected = normalize(_expected);
+  const actual = _actual !== null ? normalize(_actual) : null;
+  const missing = actual !== null ? _expected.filter((_, i) => !actual.includes(expected[i])) : _expected;
+  const unexpected = _actual !== null ? _actual.filter((_, i) => !expected.includes(actual![i])) : [];
+  return {
+    id: _id,
+    kind: _kind,
+    role: _role,
+    expected: _expected,
+    actual: _actual,
+    missing,
+    unexpected,
+    passed: _actual !== null && missing.length === 0 && unexpected.length === 0,
+    partial: _partial,
+  };
+};
@@ -0,0 +1,231 @@
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+
+import { getArg } from './cmdUtils';
+import { DeploymentSource, loadDeploymentState, resolveDeploymentStorage } from './deploymentStorage';
+
+export interface AddressBookOptions {
+  artifacts?: string; // hardhat artifacts folder, default ./artifacts
+  chainIds?: number[]; // default: all chains of the sources
+  names?: Record<string, string>; // exported name by deployment id, for ids that are no valid identifiers
+}
+
+export interface AddressBookEntry {
+  address: string;
+  contractName?: string; // fully qualified
+  blockNumber?: number;
+  abi?: any[];
+}
+
+// chain id => exported name => entry
+export type AddressBook = Record<number, Record<string, AddressBookEntry>>;
+
+const RESERVED_WORDS = new Set(
+  (
+    'break case catch class const continue debugger default delete do else enum export extends false finally for ' +
+    'function if import in instanceof new null return super switch this throw true try typeof var void while with ' +
+    'yield let static implements interface package private protected public await abstract any boolean constructor ' +
+    'declare get module require number set string symbol type from of undefined'
+  ).split(' ')
+);
+
+// exported names have to be valid identifiers, so entries can be destructured
+export const isValidAddressBookName = (_name: string) => {
+  return /^[A-Za-z_$][\w$]*$/.test(_name) && !RESERVED_WORDS.has(_name);
+};
+
+/////////////////
+// Address Book
+/////////////////
+
+export const createAddressBook = (
+  _sources: DeploymentSource | DeploymentSource[],
+  _options?: AddressBookOptions
+): AddressBook => {
+  const sources = Array.isArray(_sources) ? _sources : [_sources];
+  const artifacts = _options?.artifacts ?? './artifacts';
+  const abis = new Map<string, any[] | undefined>();
+  const book: AddressBook = {};
+  const invalid: string[] = [];
+
+  for (const source of sources) {
+    const storage = resolveDeploymentStorage(source);
+    const chainIds = _options?.chainIds ?? storage.chains?.() ?? [];
+    for (const chainId of chainIds) {
+      const state = loadDeploymentState(storage, chainId);
+      if (state === null) continue;
+
+      // proxies are exported with the abi of their current implementation, implementations are internal
+      const implementations = new Set(state.proxies.flatMap(p => p.implementations.map(i => i.deploymentId)));
+      for (const d of state.deployments) {
+        if (d.address === undefined || implementations.has(d.id)) continue;
+        const name = _options?.names?.[d.id] ?? d.id;
+        if (!isValidAddressBookName(name)) {
+          invalid.push(`${chainId}/${d.id}`);
+          continue;
+        }
+        const chain = (book[chainId] ??= {});
+        if (chain[name] !== undefined) throw new Error(`Duplicate address book entry [${chainId}/${name}]`);
+
+        // abi
+        const proxy = state.proxies.find(p => p.id === d.id);
+        const contractName = proxy?.implementations[proxy.implementations.length - 1]?.name ?? d.contractName;
+        if (contractName !== undefined && !abis.has(contractName))
+          abis.set(contractName, readArtifact(artifacts, contractName)?.abi);
+
+        chain[name] = {
+          address: d.address,
+          contractName: contractName,
+          blockNumber: d.blockNumber,
+          abi: contractName !== undefined ? abis.get(contractName) : undefined,
+        };
+      }
+    }
+  }
+
+  // check
+  if (invalid.length > 0)
+    throw new Error(`Invalid address book names (map them with the names option): ${invalid.join(', ')}`);
+  return book;
+};
+
+/////////////////
+// Render
+/////////////////
+
+// ABIs are exported once per contract (as const, for typed clients) & referenced by the entries
+export const renderAddressBookModule = (_book: AddressBook): string => {
+  const abiNames = new Map<string, string>(); // contract name => identifier
+  const lines = ['// generated from the deployment state, do not edit', ''];
+
+  // abis
+  for (const chain of Object.values(_book)) {
+    for (const e of Object.values(chain)) {
+      if (e.contractName === undefined || e.abi === undefined || abiNames.has(e.contractName)) continue;
+      const base = `${getShortName(e.contractName)}Abi`;
+      let abiName = base;
+      for (let n = 2; [...abiNames.values()].includes(abiName); n++) abiName = `${base}${n}`;
+      abiNames.set(e.contractName, abiName);
+      lines.push(`export const ${abiName} = ${JSON.stringify(e.abi, null, 2)} as const;`, '');
+    }
+  }
+
+  // entries
+  lines.push('export const addressBook = {');
+  for (const chainId of sortedChainIds(_book)) {
+    lines.push(`  ${chainId}: {`);
+    for (const name of Object.keys(_book[chainId]).sort()) {
+      const e = _book[chainId][name];
+      const abiName = e.contractName !== undefined ? abiNames.get(e.contractName) : undefined;
+      lines.push(`    ${name}: {`);
+      lines.push(`      address: '${e.address}',`);
+      if (e.contractName !== undefined) lines.push(`      contractName: '${e.contractName}',`);
+      if (e.blockNumber !== undefined) lines.push(`      blockNumber: ${e.blockNumber},`);
+      if (abiName !== undefined) lines.push(`      abi: ${abiName},`);
+      lines.push('    },');
+    }
+    lines.push('  },');
+  }
+  lines.push('} as const;', '');
+  lines.push('export type AddressBookChainId = keyof typeof addressBook;', '');
+
+  return lines.join('\n');
+};
+
+export const renderAddressBookJson = (_book: AddressBook): string => {
+  const sorted: Record<string, Record<string, AddressBookEntry>> = {};
+  for (const chainId of sortedChainIds(_book)) {
+    sorted[chainId] = {};
+    for (const name of Object.keys(_book[chainId]).sort()) sorted[chainId][name] = _book[chainId][name];
+  }
+  return `${JSON.stringify(sorted, null, 2)}\n`;
+};
+
+/////////////////
+// Command
+/////////////////
+
+export interface AddressBookArgs {
+  contracts: string | null | undefined;
+  target: string | null | undefined;
+  artifacts: string | null | undefined;
+  chainIds: string | null | undefined;
+}
+
+const getArgs = (_args: string[]): AddressBookArgs => {
+  return {
+    contracts: getArg(_args, '--contracts'),
+    target: getArg(_args, '--target'),
+    artifacts: getArg(_args, '--artifacts'),
+    chainIds: getArg(_args, '--chainIds'),
+  };
+};
+
+// writes <target>.ts & <target>.json
+export const generateAddressBook = (_silent: boolean = false) => {
+  const args = getArgs(process.argv.slice(2));
+
+  // check args
+  if (!args.target) {
+    console.log(chalk.red('ERROR: Missing --target'));
+    process.exit(1);
+  }
+
+  // create
+  const book = createAddressBook((args.contracts ?? '.').split(','), {
+    artifacts: args.artifacts ?? undefined,
+    chainIds: !args.chainIds ? undefined : args.chainIds.split(',').map(c => parseInt(c)),
+  });
+  for (const chainId of sortedChainIds(book))
+    for (const [name, e] of Object.entries(book[chainId]))
+      if (e.abi === undefined && !_silent) console.log(chalk.yellow(`- no ABI found [${chainId}/${name}]`));
+
+  // write
+  fs.mkdirSync(path.dirname(args.target!), { recursive: true });
+  fs.writeFileSync(`${args.target}.ts`, renderAddressBookModule(book));
+  fs.writeFileSync(`${args.target}.json`, renderAddressBookJson(book));
+  if (!_silent) console.log(chalk.blue(`- address book saved [${chalk.white(`${args.target}.ts`)}]`));
+
+  process.exit(0);
+};
+
+/////////////////
+// Helpers
+/////////////////
+
+const sortedChainIds = (_book: AddressBook) => {
+  return Object.keys(_book)
+    .map(c => parseInt(c))
+    .sort((a, b) => a - b);
+};
+
+const getShortName = (_contractName: string) =>
+  _contractName
+    .split(':')
+    .pop()!
+    .replace(/[^\w$]/g, '_');
+
+// <artifacts>/<source>/<name>.json, short names are searched
+const readArtifact = (_artifacts: string, _contractName: string): { abi: any[] } | null => {
+  const [sourceName, name] = _contractName.includes(':') ? _contractName.split(':') : [undefined, _contractName];
+  const file = sourceName !== undefined ? `${_artifacts}/${sourceName}/${name}.json` : findArtifact(_artifacts, name);
+  try {
+    return file === null ? null : JSON.parse(fs.readFileSync(file).toString());
+  } catch {
+    return null;
+  }
+};
+
+const findArtifact = (_folder: string, _name: string): string | null => {
+  if (!fs.existsSync(_folder)) return null;
+  for (const e of fs.readdirSync(_folder, { withFileTypes: true })) {
+    const file = `${_folder}/${e.name}`;
+    if (e.isFile() && e.name === `${_name}.json`) return file;
+    if (e.isDirectory() && e.name !== 'build-info') {
+      const found = findArtifact(file, _name);
+      if (found !== null) return found;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,91 @@
+export interface BytecodeRange {
+  start: number; // in bytes
+  length: number; // in bytes
+}
+
+export type LinkReferences = Record<string, Record<string, BytecodeRange[]>>; // source => library => ranges
+
+/////////////////
+// Normalize
+/////////////////
+
+// removes the CBOR encoded metadata, its length is stored in the last 2 bytes
+export const stripMetadata = (_code: string): string => {
+  const hex = _code.replace(/^0x/, '').toLowerCase();
+  if (hex.length < 4) return hex;
+  const size = (parseInt(hex.slice(-4), 16) + 2) * 2;
+  return size > hex.length ? hex : hex.slice(0, hex.length - size);
+};
+
+// zeroes the given ranges (e.g. immutables & linked libraries)
+export const maskBytecode = (_code: string, _ranges: BytecodeRange[]): string => {
+  let hex = _code.replace(/^0x/, '').toLowerCase();
+  for (const r of _ranges) {
+    const start = r.start * 2;
+    const end = Math.min(start + r.length * 2, hex.length);
+    if (start >= hex.length) continue;
+    hex = hex.slice(0, start) + '0'.repeat(end - start) + hex.slice(end);
+  }
+  return hex;
+};
+
+export const normalizeBytecode = (_code: string, _ranges: BytecodeRange[]): string => {
+  return stripMetadata(maskBytecode(_code, _ranges));
+};
+
+/////////////////
+// Ranges
+/////////////////
+
+export const getImmutableRanges = (_immutableReferences?: Record<string, BytecodeRange[]>): BytecodeRange[] => {
+  return Object.values(_immutableReferences ?? {}).flat();
+};
+
+export const getLinkRanges = (_linkReferences?: LinkReferences): BytecodeRange[] => {
+  return Object.values(_linkReferences ?? {}).flatMap(l => Object.values(l).flat());
+};
+
+// libraries start with PUSH20 of their own address, which is zero in the artifact
+export const getLibraryAddressRange = (_deployedBytecode: string): BytecodeRange[] => {
+  const hex = _deployedBytecode.replace(/^0x/, '').toLowerCase();
+  return hex.startsWith(`73${'0'.repeat(40)}`) ? [{ start: 1, length: 20 }] : [];
+};
+
+/////////////////
+// Libraries
+/////////////////
+
+// fully qualified names (source:library)
+export const getLinkedLibraryNames = (_linkReferences?: LinkReferences): string[] => {
+  return Object.entries(_linkReferences ?? {}).flatMap(([source, l]) => Object.keys(l).map(n => `${source}:${n}`));
+};
+
+// replaces the placeholders with the library addresses, unknown libraries keep their placeholder
+export const linkBytecode = (
+  _bytecode: string,
+  _linkReferences: LinkReferences | undefined,
+  _libraries: Record<string, string>
+): string => {
+  let hex = _bytecode.replace(/^0x/, '');
+  for (const [source, l] of Object.entries(_linkReferences ?? {})) {
+    for (const [name, ranges] of Object.entries(l)) {
+      const address = _libraries[`${source}:${name}`]?.replace(/^0x/, '').toLowerCase();
+      if (address === undefined) continue;
+      for (const r of ranges) hex = hex.slice(0, r.start * 2) + address + hex.slice((r.start + r.length) * 2);
+    }
+  }
+  return `0x${hex}`;
+};
+
+// addresses at the first link reference of each library (e.g. of linked init code)
+export const readLinkedLibraries = (_bytecode: string, _linkReferences?: LinkReferences): Record<string, string> => {
+  const hex = _bytecode.replace(/^0x/, '');
+  const libraries: Record<string, string> = {};
+  for (const [source, l] of Object.entries(_linkReferences ?? {})) {
+    for (const [name, ranges] of Object.entries(l)) {
+      const r = ranges[0];
+      if (r !== undefined) libraries[`${source}:${name}`] = `0x${hex.slice(r.start * 2, (r.start + r.length) * 2)}`;
+    }
+  }
+  return libraries;
+};
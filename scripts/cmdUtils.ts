@@ -1,3 +1,5 @@
+import fs from 'fs';
+
 export const getArg = (_args: string[], _prefix?: string) => {
   const prefix = `${_prefix}:`;
   const arg = _args.find(a => a.indexOf(prefix) === 0)?.replace(prefix, '');
@@ -6,3 +8,16 @@ export const getArg = (_args: string[], _prefix?: string) => {
   }
   return arg;
 };
+
+// .json or .yaml / .yml (needs the optional js-yaml package)
+export const loadJsonOrYaml = <T>(_file: string, _kind: string): T => {
+  const data = fs.readFileSync(_file).toString();
+  if (!/\.ya?ml$/i.test(_file)) return JSON.parse(data);
+  let yaml: { load: (_data: string) => unknown };
+  try {
+    yaml = require('js-yaml');
+  } catch {
+    throw new Error(`YAML ${_kind} require the js-yaml package (npm i js-yaml)`);
+  }
+  return yaml.load(data) as T;
+};
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+
+export enum DeployEventType {
+  Log = 'log',
+  DeployStarted = 'deploy-started',
+  SendStarted = 'send-started',
+  CallExecuted = 'call-executed',
+  TxBroadcast = 'tx-broadcast',
+  TxReplaced = 'tx-replaced',
+  TxMined = 'tx-mined',
+  CachedHit = 'cached-hit',
+  Reverted = 'reverted',
+}
+
+export enum DeployEventKind {
+  Deploy = 'deploy',
+  Call = 'call',
+  Send = 'send',
+}
+
+export enum DeployLogLevel {
+  Info = 'info',
+  Warn = 'warn',
+  Error = 'error',
+}
+
+interface DeployEventBase {
+  chainId: number;
+  timestamp: number; // ms
+}
+
+export interface DeployLogEvent extends DeployEventBase {
+  type: DeployEventType.Log;
+  level: DeployLogLevel;
+  message: string; // may contain colors
+  depth: number;
+}
+
+export interface DeployStartedEvent extends DeployEventBase {
+  type: DeployEventType.DeployStarted;
+  id?: string;
+  name: string;
+  log: string;
+}
+
+export interface SendStartedEvent extends DeployEventBase {
+  type: DeployEventType.SendStarted;
+  id?: string;
+  log: string;
+  retry: boolean;
+}
+
+export interface CallExecutedEvent extends DeployEventBase {
+  type: DeployEventType.CallExecuted;
+  id?: string;
+  log: string;
+}
+
+export interface TxBroadcastEvent extends DeployEventBase {
+  type: DeployEventType.TxBroadcast;
+  kind: DeployEventKind;
+  id?: string;
+  txHash: string;
+}
+
+export interface TxReplacedEvent extends DeployEventBase {
+  type: DeployEventType.TxReplaced;
+  kind: DeployEventKind;
+  id?: string;
+  txHash: string;
+  replacedTxHash: string;
+}
+
+export interface TxMinedEvent extends DeployEventBase {
+  type: DeployEventType.TxMined;
+  kind: DeployEventKind;
+  id?: string;
+  txHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  success: boolean;
+  address?: string; // of deployments
+}
+
+export interface CachedHitEvent extends DeployEventBase {
+  type: DeployEventType.CachedHit;
+  kind: DeployEventKind;
+  id?: string;
+  log: string;
+  address?: string; // of deployments
+}
+
+export interface RevertedEvent extends DeployEventBase {
+  type: DeployEventType.Reverted;
+  kind: DeployEventKind;
+  id?: string;
+  log: string;
+  txHash?: string;
+}
+
+export type DeployEvent =
+  | DeployLogEvent
+  | DeployStartedEvent
+  | SendStartedEvent
+  | CallExecutedEvent
+  | TxBroadcastEvent
+  | TxReplacedEvent
+  | TxMinedEvent
+  | CachedHitEvent
+  | RevertedEvent;
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+// payload of an event, chain id & timestamp are added by the emitter
+export type DeployEventPayload = DistributiveOmit<DeployEvent, 'chainId' | 'timestamp'>;
+
+/////////////////
+// Sinks
+/////////////////
+
+export interface DeployEventSink {
+  handle: (_event: DeployEvent) => void;
+}
+
+// the classic console output, only log messages are printed
+export class PrettyPrinterSink implements DeployEventSink {
+  private tab: string;
+
+  public constructor(_tab: string = '  ') {
+    this.tab = _tab;
+  }
+
+  public handle = (_event: DeployEvent) => {
+    if (_event.type !== DeployEventType.Log) return;
+    console.log(`${this.tab.repeat(Math.max(_event.depth, 0))}${_event.message}`);
+  };
+}
+
+// one JSON object per line, to a file or stdout
+export class JsonLinesSink implements DeployEventSink {
+  private file?: string;
+  private includeLogs: boolean;
+
+  public constructor(_file?: string, _includeLogs: boolean = true) {
+    this.file = _file;
+    this.includeLogs = _includeLogs;
+    if (this.file !== undefined) fs.mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  public handle = (_event: DeployEvent) => {
+    if (_event.type === DeployEventType.Log && !this.includeLogs) return;
+    const line = JSON.stringify(
+      _event.type === DeployEventType.Log ? { ..._event, message: stripColors(_event.message) } : _event
+    );
+    if (this.file === undefined) process.stdout.write(`${line}\n`);
+    else fs.appendFileSync(this.file, `${line}\n`);
+  };
+}
+
+/////////////////
+// Helpers
+/////////////////
+
+const stripColors = (_message: string) => _message.replace(/\u001b\[[0-9;]*m/g, '');
@@ -1,42 +1,234 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import chalk from 'chalk';
 import fs from 'fs';
+import path from 'path';
+import readline from 'readline/promises';
 
 import {
+  TransactionRequest,
   TransactionResponse,
+  TransactionReceipt,
+  JsonRpcProvider,
   ContractTransactionResponse,
+  ContractFactory,
   BaseContract,
+  Contract,
+  Signer,
   resolveAddress,
   FunctionFragment,
   ParamType,
+  EventFragment,
+  Indexed,
+  Result,
+  getCreate2Address,
+  keccak256,
+  concat,
+  id,
+  isHexString,
+  getAddress,
+  dataSlice,
+  formatEther,
+  formatUnits,
+  AbiCoder,
+  Interface,
+  Transaction,
+  ZeroHash,
+  getCreateAddress,
 } from 'ethers';
 import hre from 'hardhat';
+import type { Artifact, HttpNetworkConfig } from 'hardhat/types';
 import '@nomicfoundation/hardhat-ethers';
 
-export interface ContractDeploymentInfo {
-  id: string;
-  txHash: string;
-  address?: string;
-  alternativeInfoFileID?: string;
-}
-
-export interface ContractCallInfo {
-  id: string;
-  result: any;
-  alternativeInfoFileID?: string;
-}
+import type { Etherscan } from '@nomicfoundation/hardhat-verify/etherscan';
+import type { EtherscanConfig } from '@nomicfoundation/hardhat-verify/types';
 
-export interface ContractSendInfo {
-  id: string;
-  txHash: string;
-  success: boolean;
-  alternativeInfoFileID?: string;
+import {
+  getImmutableRanges,
+  getLibraryAddressRange,
+  getLinkRanges,
+  getLinkedLibraryNames,
+  linkBytecode,
+  normalizeBytecode,
+  readLinkedLibraries,
+} from './bytecode';
+import {
+  DeployEvent,
+  DeployEventKind,
+  DeployEventPayload,
+  DeployEventSink,
+  DeployEventType,
+  DeployLogLevel,
+  PrettyPrinterSink,
+} from './deployEvents';
+import {
+  DeploymentReport,
+  DeploymentReportOptions,
+  createDeploymentReport,
+  renderHtmlReport,
+  renderMarkdownReport,
+} from './deploymentReport';
+import {
+  PruneEntry,
+  PruneEntryKind,
+  PruneOptions,
+  describePruneEntry,
+  generatePruneBackupFileName,
+  pruneState,
+} from './deploymentPrune';
+import { DeploySigner, DeploySignerMiddleware, isTransactionRequest, isTransactionResponse } from './deploySigner';
+import { runOnNetwork } from './hardhatNetworks';
+import { StorageLayout, compareStorageLayouts, getStorageLayout } from './storageLayout';
+import {
+  ContractCallInfo,
+  ContractDeploymentInfo,
+  ContractDeploymentState,
+  ContractEventInfo,
+  ContractImplementationInfo,
+  ContractProxyInfo,
+  ContractSendInfo,
+  ContractSendStatus,
+  ContractVerificationInfo,
+  DEPLOYMENT_STATE_VERSION,
+  DeploymentStorage,
+  DeterministicDeployInfo,
+  DeterministicDeployType,
+  DeploymentRunInfo,
+  FileDeploymentStorage,
+  GasLedgerEntryKind,
+  InputFingerprint,
+  ProxyKind,
+  SafeTransactionInfo,
+  TimelockCallInfo,
+  TimelockOperationInfo,
+  VerificationStatus,
+  loadDeploymentState,
+} from './deploymentStorage';
+
+// state schema, storage, events, reports, manifests, access audits & the signer are part of the public API
+export * from './deploymentStorage';
+export * from './deployEvents';
+export * from './deploymentReport';
+export * from './deployManifest';
+export * from './deploymentPrune';
+export * from './accessAudit';
+export * from './deploySigner';
+
+// keyless deployer from https://github.com/Arachnid/deterministic-deployment-proxy
+export const DETERMINISTIC_DEPLOYER_ADDRESS = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+// CREATE3Factory from https://github.com/ZeframLou/create3-factory
+export const CREATE3_FACTORY_ADDRESS = '0x9fBB3DF7C40Da2e5A0dE984fFE2CCB7C47cd0ABf';
+
+// ERC1967 admin slot, to find the ProxyAdmin of transparent proxies
+const ERC1967_ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+const UUPS_ABI = [
+  'function upgradeTo(address newImplementation)',
+  'function upgradeToAndCall(address newImplementation, bytes data) payable',
+];
+
+const PROXY_ADMIN_ABI = ['function upgradeAndCall(address proxy, address implementation, bytes data) payable'];
+
+const SAFE_ABI = ['function nonce() view returns (uint256)'];
+
+const TIMELOCK_ABI = [
+  'function getMinDelay() view returns (uint256)',
+  'function getTimestamp(bytes32 id) view returns (uint256)',
+  'function isOperationPending(bytes32 id) view returns (bool)',
+  'function schedule(address target, uint256 value, bytes data, bytes32 predecessor, bytes32 salt, uint256 delay)',
+  'function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)',
+  'function execute(address target, uint256 value, bytes payload, bytes32 predecessor, bytes32 salt) payable',
+  'function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable',
+  'function cancel(bytes32 id)',
+  'event CallExecuted(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data)',
+];
+
+// timestamp of executed operations in TimelockController
+const TIMELOCK_DONE_TIMESTAMP = 1n;
+
+const DEFAULT_POLL_INTERVAL = 4000;
+const DEFAULT_DROP_TIMEOUT = 60000;
+const DEFAULT_SPEED_UP_PERCENT = 15;
+const DEFAULT_BUDGET_MARGIN = 20;
+
+const CREATE3_FACTORY_ABI = [
+  'function deploy(bytes32 salt, bytes creationCode) payable returns (address deployed)',
+  'function getDeployed(address deployer, bytes32 salt) view returns (address deployed)',
+];
+
+const bigIntMin = (_value: bigint, _cap?: bigint) => (_cap !== undefined && _cap < _value ? _cap : _value);
+
+const bigIntMax = (..._values: (bigint | null)[]) =>
+  _values.reduce<bigint>((a, b) => (b !== null && b > a ? b : a), 0n);
+
+type HardhatProvider = typeof hre.ethers.provider;
+
+// sees what a callback does with the provider, while it runs inside captureCalls / captureTransaction
+interface ProviderCapture {
+  call?: (_tx: TransactionRequest) => Promise<void>; // every read
+  send?: () => void; // transactions of other signers, throws to stop them
 }
 
-export interface ContractDeploymentState {
-  deployments: ContractDeploymentInfo[];
-  calls: ContractCallInfo[];
-  sends: ContractSendInfo[];
-}
+// captures of the current async context (outer ones included), so parallel captures don't mix
+const providerCaptures = new AsyncLocalStorage<ProviderCapture[]>();
+
+// one hook per provider, shared by all running captures & removed with the last one
+const providerHooks = new Map<
+  HardhatProvider,
+  {
+    call: HardhatProvider['call'];
+    send: HardhatProvider['send'];
+    broadcastTransaction: HardhatProvider['broadcastTransaction'];
+    count: number;
+  }
+>();
+
+const SEND_METHODS = ['eth_sendTransaction', 'eth_sendRawTransaction'];
+
+const runWithProviderCapture = async <T>(
+  _provider: HardhatProvider,
+  _capture: ProviderCapture,
+  _callback: () => Promise<T>
+): Promise<T> => {
+  // hook
+  let hook = providerHooks.get(_provider);
+  if (hook === undefined) {
+    const original = {
+      call: _provider.call,
+      send: _provider.send,
+      broadcastTransaction: _provider.broadcastTransaction,
+      count: 0,
+    };
+    hook = original;
+    providerHooks.set(_provider, hook);
+    const captures = () => providerCaptures.getStore() ?? [];
+    _provider.call = async (_tx: TransactionRequest) => {
+      for (const c of captures()) await c.call?.(_tx);
+      return await original.call.call(_provider, _tx);
+    };
+    _provider.send = async (_method: string, _params?: any[]) => {
+      if (SEND_METHODS.includes(_method)) for (const c of captures()) c.send?.();
+      return await original.send.call(_provider, _method, _params);
+    };
+    _provider.broadcastTransaction = async (_signedTx: string) => {
+      for (const c of captures()) c.send?.();
+      return await original.broadcastTransaction.call(_provider, _signedTx);
+    };
+  }
+  hook.count++;
+
+  // run & unhook with the last capture
+  try {
+    return await providerCaptures.run([...(providerCaptures.getStore() ?? []), _capture], _callback);
+  } finally {
+    if (--hook.count === 0) {
+      providerHooks.delete(_provider);
+      _provider.call = hook.call;
+      _provider.send = hook.send;
+      _provider.broadcastTransaction = hook.broadcastTransaction;
+    }
+  }
+};
 
 type SerializedType = boolean | number | string | SerializedStruct | SerializedTypeInfo | SerializedType[];
 
@@ -49,16 +241,265 @@ interface SerializedTypeInfo {
   $type: 'BigInt' | 'struct' | 'array';
 }
 
+type DeployedContract<T> = T &
+  BaseContract & {
+    deploymentTransaction(): ContractTransactionResponse;
+  };
+
 export enum DeployHelperWalletProvider {
   Seed = 'seed',
   Ledger = 'ledger',
 }
 
+export interface DeterministicDeployOptions {
+  salt: string; // bytes32 hex or any string, that will be hashed
+  type?: DeterministicDeployType;
+  factory?: string;
+}
+
+export interface ProxyDeployOptions {
+  kind?: ProxyKind;
+  initializer?: string | false; // defaults to "initialize", false to skip
+  initialOwner?: string; // owner of the ProxyAdmin (transparent only), defaults to deployer
+  proxyContract?: string; // defaults to "ERC1967Proxy" / "TransparentUpgradeableProxy"
+  implementationArgs?: any[];
+}
+
+export interface ProxyUpgradeOptions {
+  call?: { fn: string; args: any[] }; // optional call for upgradeToAndCall
+  implementationArgs?: any[];
+  unsafeSkipStorageCheck?: boolean;
+}
+
+export interface SendOptions {
+  events?: string[]; // names or signatures of events, whose args are stored in the state
+}
+
+export interface DecodedEventLog {
+  address: string;
+  deploymentId?: string; // known deployment at the address
+  name: string;
+  signature: string;
+  args: Result;
+  fragment: EventFragment;
+  logIndex: number;
+}
+
+export interface SendResult {
+  receipt: TransactionReceipt | null; // null, while pending in a send group
+  events: DecodedEventLog[];
+}
+
+export enum DeployPlanStepType {
+  Deploy = 'deploy',
+  Call = 'call',
+  Send = 'send',
+}
+
+export enum DeployPlanStepStatus {
+  Cached = 'cached',
+  Execute = 'execute',
+}
+
+export interface TimelockScheduleOptions {
+  delay?: bigint; // in seconds, defaults to the min delay of the timelock
+  salt?: string; // bytes32 or any string (will be hashed), defaults to the hashed id
+  predecessor?: string; // id of another timelock step or an operation id
+}
+
+export enum TimelockOperationStatus {
+  Unscheduled = 'unscheduled', // proposed to Safe, exported or reverted
+  Pending = 'pending', // waiting for the delay
+  Executed = 'executed',
+}
+
+export interface DeployPlanStep {
+  type: DeployPlanStepType;
+  id?: string;
+  log: string;
+  status: DeployPlanStepStatus;
+  gas?: string;
+}
+
+export interface DeployPlan {
+  chainId: number;
+  steps: DeployPlanStep[];
+  totalGas: string;
+  feePerGas: string;
+  totalCost: string;
+}
+
+export interface DeployBudgetOptions {
+  margin?: number; // in percent on top of the estimate (default: 20)
+  confirm?: boolean; // ask to continue on a shortfall, instead of aborting
+}
+
+export interface DeployBudget {
+  deployer: string;
+  balance: string;
+  steps: DeployPlanStep[]; // remaining (not cached) steps
+  totalGas: string;
+  feePerGas: string;
+  totalCost: string; // incl. margin
+  shortfall: string; // 0, if the balance is sufficient
+}
+
+export interface DeployHelperDryRunFork {
+  url: string;
+  blockNumber?: number;
+  deployer?: string; // impersonated & funded on the fork (default: first account of the hardhat network)
+}
+
+export enum DeploymentDriftStatus {
+  Ok = 'ok',
+  Missing = 'missing', // never deployed
+  Mismatch = 'mismatch',
+  SelfDestructed = 'selfdestructed',
+  Unknown = 'unknown', // no artifact to compare
+}
+
+export interface DeploymentDriftInfo {
+  id: string;
+  address: string;
+  status: DeploymentDriftStatus;
+  message?: string;
+}
+
+// sends a transaction with the helper's signer or returns it unsent (e.g. contract.fn.populateTransaction(...))
+export type SendCallback = () => Promise<TransactionResponse | TransactionRequest>;
+
+export interface DeployHelperSafeOptions {
+  address: string;
+  transactionServiceUrl?: string; // e.g. https://safe-transaction-mainnet.safe.global, to detect executed proposals
+}
+
+export interface DeployHelperFeeOptions {
+  maxFeePerGas?: bigint; // cap, the run waits while the base fee is too high
+  maxPriorityFeePerGas?: bigint; // cap
+  pollInterval?: number; // in ms (default: 4000)
+  speedUpTimeout?: number; // in ms, pending transactions are replaced with bumped fees afterwards
+  speedUpPercent?: number; // fee bump of replacements (default: 15, nodes require at least 10)
+  dropTimeout?: number; // in ms, unknown transactions with an unused nonce are sent again afterwards (default: 60000)
+}
+
+interface TrackedTransaction {
+  txHash: string;
+  replacedTxHashes?: string[];
+  from?: string;
+  nonce?: number;
+}
+
+interface TxEventContext {
+  kind: DeployEventKind;
+  id?: string;
+}
+
+interface SendGroupEntry {
+  id: string | undefined;
+  log: string;
+  record: TrackedTransaction;
+  options?: SendOptions;
+}
+
+interface SendGroupNonces {
+  next: number;
+  reserved: Set<number>; // still pending from a previous run
+}
+
+export interface DeployHelperOfflineOptions {
+  from: string; // address of the offline signer
+  gasLimit?: bigint; // fallback, if the gas can't be estimated (e.g. depends on other exported transactions)
+}
+
+export enum OfflineTransactionType {
+  Deploy = 'deploy',
+  Send = 'send',
+}
+
+export interface UnsignedOfflineTransaction {
+  type: 2;
+  chainId: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+export interface OfflineTransactionInfo {
+  id: string;
+  type: OfflineTransactionType;
+  description: string;
+  contractName?: string; // deploy only
+  address?: string; // expected address of deployment
+  fingerprint: InputFingerprint;
+  transaction: UnsignedOfflineTransaction;
+}
+
+export interface OfflineTransactionBatch {
+  chainId: string;
+  from: string;
+  transactions: OfflineTransactionInfo[];
+}
+
+interface SafeExecutedTransaction {
+  to: string;
+  value: string;
+  data: string;
+  nonce: number;
+  safeTxHash: string;
+  txHash: string;
+  success: boolean;
+}
+
+// multisig transactions of the Safe transaction service (only the fields read here)
+interface SafeServiceCall {
+  to: string;
+  value: string | null;
+  data: string | null;
+}
+
+interface SafeServiceTransaction extends SafeServiceCall {
+  nonce: number;
+  safeTxHash: string;
+  transactionHash: string;
+  isSuccessful: boolean | null;
+  dataDecoded?: { method: string; parameters?: { valueDecoded?: SafeServiceCall[] | null }[] } | null;
+}
+
+interface SafeServicePage {
+  next: string | null;
+  results: SafeServiceTransaction[];
+}
+
+export interface DeployHelperVerificationOptions {
+  apiKey: string;
+  apiUrl: string;
+  browserUrl: string;
+}
+
+export enum InputChangePolicy {
+  Warn = 'warn',
+  Fail = 'fail',
+  Reexecute = 'reexecute',
+}
+
 export interface DeployHelperOptions {
   walletProvider?: DeployHelperWalletProvider;
-  silent?: boolean;
+  silent?: boolean; // no log messages, lifecycle events are still emitted
+  sinks?: DeployEventSink[]; // receive all events (default: pretty printer to console)
   throwOnRevert?: boolean;
   hardwareWalletAccountIndex?: number;
+  dryRun?: boolean; // only on the in-process hardhat network, nothing is saved
+  dryRunFork?: DeployHelperDryRunFork; // fork target chain for dry run
+  verification?: DeployHelperVerificationOptions; // defaults to etherscan config of hardhat-verify
+  inputChangePolicy?: InputChangePolicy; // what to do, if inputs of a cached id changed (default: warn)
+  safe?: DeployHelperSafeOptions; // propose sends to Safe instead of sending them
+  offline?: DeployHelperOfflineOptions; // export unsigned transactions instead of sending them
+  fees?: DeployHelperFeeOptions; // fee caps & replacement of stuck transactions
+  storage?: DeploymentStorage; // where state files are stored (default: ./deploy/deployments/<chainId>)
 }
 
 export class DeployHelper {
@@ -68,20 +509,55 @@ export class DeployHelper {
   private level: number;
   private tab: string;
   public silent: boolean;
+  public sinks: DeployEventSink[];
   public throwOnRevert: boolean;
   public forceLoadLocal: boolean = false;
   private walletProvider: DeployHelperWalletProvider;
   private walletProviderBefore: boolean = false;
+  private walletProviderDepth = 0;
   private hardwareWalletAccountIndex: number;
   private hardwareWalletAccountIndexBefore: number;
   private alternativeInfoFileID?: string;
+  public readonly dryRun: boolean;
+  private dryRunFork?: DeployHelperDryRunFork;
+  private dryRunSigner: Signer | null = null;
+  private dryRunLocal: boolean = false; // on a snapshot of the in-process network (budget checks)
+  private plan: DeployPlanStep[];
+  private verification?: DeployHelperVerificationOptions;
+  public inputChangePolicy: InputChangePolicy;
+  private safe?: DeployHelperSafeOptions;
+  private safeExecutedTransactions: SafeExecutedTransaction[] | null = null;
+  private offline?: DeployHelperOfflineOptions;
+  private offlineTransactions: OfflineTransactionInfo[] = [];
+  private offlineNonce: number | null = null;
+  private fees?: DeployHelperFeeOptions;
+  public readonly storage: DeploymentStorage;
+  private lockedFiles: string[] = [];
+  private pendingSendGroup: SendGroupEntry[] | null = null;
+  private sendGroupNonces = new Map<string, SendGroupNonces>();
+  private middlewares: DeploySignerMiddleware[] = [];
+  private eventInterfaces = new Map<string, Interface | null>();
+  private runStartedAt = Date.now();
 
   public constructor(_options?: DeployHelperOptions) {
     this.level = 0;
     this.tab = '  ';
     this.silent = _options?.silent ?? false;
+    this.sinks = _options?.sinks ?? [new PrettyPrinterSink(this.tab)];
     this.throwOnRevert = _options?.throwOnRevert ?? true;
-    this.walletProvider = _options?.walletProvider ?? DeployHelperWalletProvider.Seed;
+    this.dryRun = _options?.dryRun ?? false;
+    this.dryRunFork = _options?.dryRunFork;
+    this.plan = [];
+    this.verification = _options?.verification;
+    this.inputChangePolicy = _options?.inputChangePolicy ?? InputChangePolicy.Warn;
+    this.safe = _options?.safe;
+    this.offline = _options?.offline;
+    this.fees = _options?.fees;
+    this.storage = _options?.storage ?? new FileDeploymentStorage();
+    this.walletProvider =
+      this.dryRun || this.offline !== undefined
+        ? DeployHelperWalletProvider.Seed // never touch hardware wallet in dry run or offline mode
+        : (_options?.walletProvider ?? DeployHelperWalletProvider.Seed);
     this.hardwareWalletAccountIndex = _options?.hardwareWalletAccountIndex ?? 0;
     this.hardwareWalletAccountIndexBefore = this.hardwareWalletAccountIndex;
     this.chainId = hre.network.config.chainId as number;
@@ -90,17 +566,63 @@ export class DeployHelper {
       deployments: [],
       calls: [],
       sends: [],
+      proxies: [],
     };
   }
 
   public init = async () => {
+    // dry run
+    if (this.dryRun) await this.initDryRun();
+
     // check
     if (this.chainId === undefined) throw 'Invalid Network';
 
-    // load
+    // lock & load
+    this.lockInfoFile();
     await this.loadDeploymentInfo();
   };
 
+  // exclusive access to the info file for the whole run, released on exit
+  private lockInfoFile = () => {
+    const file = this.generateInfoFileName();
+    if (this.dryRun || this.lockedFiles.includes(file)) return;
+    this.storage.lock?.(this.chainId, file);
+    this.lockedFiles.push(file);
+  };
+
+  public release = () => {
+    for (const f of this.lockedFiles) this.storage.unlock?.(this.chainId, f);
+    this.lockedFiles = [];
+  };
+
+  private initDryRun = async () => {
+    if (hre.network.name !== 'hardhat') throw new Error('Dry run is only possible on the in-process hardhat network');
+    this.warn(`- DRY RUN: nothing will be broadcasted or saved`);
+    if (this.dryRunFork === undefined) {
+      // without a fork, there is no state of the target chain to compare with
+      if (this.chainId === 31337 && !this.forceLoadLocal && !this.dryRunLocal)
+        throw new Error('Dry run needs dryRunFork (or forceLoadLocal to use the local state)');
+      return;
+    }
+
+    // fork target chain & use its state
+    const deployer = this.dryRunFork.deployer ?? (await (await hre.ethers.getSigners())[0].getAddress());
+    this.chainId = Number((await new JsonRpcProvider(this.dryRunFork.url).getNetwork()).chainId);
+    await hre.network.provider.request({
+      method: 'hardhat_reset',
+      params: [{ forking: { jsonRpcUrl: this.dryRunFork.url, blockNumber: this.dryRunFork.blockNumber } }],
+    });
+    this.log(chalk.blue(`  - forked chain [${chalk.white(this.chainId)}]`));
+
+    // send as the deployer of the target chain, funded to not fail on the balance
+    this.dryRunSigner = await hre.ethers.getImpersonatedSigner(deployer);
+    await hre.network.provider.request({
+      method: 'hardhat_setBalance',
+      params: [deployer, `0x${(10n ** 30n).toString(16)}`],
+    });
+    this.log(chalk.blue(`  - impersonating [${chalk.white(getAddress(deployer))}]`));
+  };
+
   public useAlternativeInfoFileID = (_alternativeInfoFileID?: string) => {
     // check
     if (this.alternativeInfoFileID === _alternativeInfoFileID) return;
@@ -109,10 +631,13 @@ export class DeployHelper {
 
     // set
     this.alternativeInfoFileID = _alternativeInfoFileID;
+    this.lockInfoFile();
     if (this.alternativeInfoFileID !== undefined) this.loadDeploymentInfo(true);
   };
 
+  // nested calls keep the outer state
   private applyWalletProvider = () => {
+    if (this.walletProviderDepth++ > 0) return;
     const hreAny = hre as any;
     this.hardwareWalletAccountIndexBefore = hreAny.useHardwareWalletAccountIndex;
     switch (this.walletProvider) {
@@ -125,14 +650,11 @@ export class DeployHelper {
   };
 
   public getDeployerAddress = async () => {
-    this.applyWalletProvider();
-    const addr = await (await hre.ethers.getSigners())[0].getAddress();
-    this.resetWalletProvider();
-
-    return addr;
+    return await (await this.getSigner()).getAddress();
   };
 
   private resetWalletProvider = () => {
+    if (--this.walletProviderDepth > 0) return;
     const hreAny = hre as any;
     switch (this.walletProvider) {
       case DeployHelperWalletProvider.Ledger:
@@ -142,16 +664,43 @@ export class DeployHelper {
     hreAny.useHardwareWalletAccountIndex = this.hardwareWalletAccountIndexBefore;
   };
 
+  // all transactions of the helper are sent by this signer, use it (or the contracts & factories of the helper)
+  // in callbacks, so fees, nonces & Safe / offline capturing apply
+  public getSigner = async (): Promise<DeploySigner> => {
+    this.applyWalletProvider();
+    try {
+      return new DeploySigner(this.dryRunSigner ?? (await hre.ethers.getSigners())[0], this.middlewares);
+    } finally {
+      this.resetWalletProvider();
+    }
+  };
+
+  public getContractFactory = async <F extends ContractFactory = ContractFactory>(
+    _name: string,
+    _libraries?: Record<string, string>
+  ): Promise<F> => {
+    const factory =
+      _libraries !== undefined
+        ? await hre.ethers.getContractFactory(_name, { libraries: _libraries })
+        : await hre.ethers.getContractFactory(_name);
+    return factory.connect(await this.getSigner()) as unknown as F;
+  };
+
+  public getContractAt = async <T>(_name: string, _address: string): Promise<T> => {
+    return (await hre.ethers.getContractAt(_name, _address)).connect(await this.getSigner()) as T;
+  };
+
   public load = async <T>(_id: string, _name: string): Promise<T> => {
     // check if id exist
     let d = this.findDeployment(_id);
     if (d !== null) {
       // check for address / mined tx
       if (d.address === undefined) {
-        const tx = await hre.ethers.provider.getTransaction(d.txHash);
-        if (tx !== null) {
-          const r = await tx!.wait();
-          this.setDeploymentAddress(_id, null, r!.contractAddress!);
+        const r = await this.waitForTransaction(d, { kind: DeployEventKind.Deploy, id: _id });
+        if (r !== null) {
+          if (r.status !== 1) throw new Error('Tx reverted');
+          await this.setDeploymentDetails(_id, _name, r);
+          this.setDeploymentAddress(_id, null, r!.contractAddress ?? d.deterministic?.address);
           d = this.findDeployment(_id)!;
         }
       }
@@ -160,16 +709,10 @@ export class DeployHelper {
       if (d.address !== undefined) {
         // load deployed
         this.log(chalk.blue(`- loading [${chalk.white(_name)}]`));
-        this.applyWalletProvider();
-        try {
-          const c = await hre.ethers.getContractAt(_name, d.address);
-          this.resetWalletProvider();
-          this.log(chalk.blue(`  - loaded @ [${chalk.white(d.address)}]`));
-          return c as T;
-        } catch (e) {
-          this.resetWalletProvider();
-          throw e;
-        }
+        await this.checkCode(d.address);
+        const c = await this.getContractAt<T>(_name, d.address);
+        this.log(chalk.blue(`  - loaded @ [${chalk.white(d.address)}]`));
+        return c;
       }
     }
 
@@ -178,254 +721,2531 @@ export class DeployHelper {
     throw new Error('No deployment found');
   };
 
-  public loadWithAddress = async <T>(_address: string, _name: string): Promise<T> => {
-    // load deployed
-    this.log(chalk.blue(`- loading [${chalk.white(_name)}]`));
+  public loadWithAddress = async <T>(_address: string, _name: string): Promise<T> => {
+    // load deployed
+    this.log(chalk.blue(`- loading [${chalk.white(_name)}]`));
+    try {
+      const c = await this.getContractAt<T>(_name, _address);
+      this.log(chalk.blue(`  - loaded @ [${chalk.white(_address)}]`));
+      return c;
+    } catch (e) {
+      this.error(`  - Could not load contract`);
+      throw e;
+    }
+  };
+
+  // links the libraries of the artifact, see linkLibraries
+  public deployLinked = async <T>(
+    _id: string | undefined,
+    _name: string,
+    _args: any[],
+    _libraries?: Record<string, string>,
+    _log?: string
+  ): Promise<T> => {
+    // cached deployments keep their libraries, nothing is resolved or deployed for them
+    const libraries = this.findDeployment(_id)?.libraries ?? (await this.linkLibraries(_name, _libraries));
+    return await this.deploy<T>(
+      _id,
+      _name,
+      async () => (await (await this.getContractFactory(_name, libraries)).deploy(..._args)) as DeployedContract<T>,
+      _log
+    );
+  };
+
+  // resolves the libraries of an artifact by deployment id (library name => id, defaults to the library name),
+  // missing libraries are deployed under their id
+  public linkLibraries = async (
+    _name: string,
+    _libraries?: Record<string, string>
+  ): Promise<Record<string, string>> => {
+    return await this.resolveLibraries(_name, _libraries);
+  };
+
+  // libraries of deterministic deployments are deployed deterministically as well (salt: hash of the library name),
+  // so the init code & address are the same on every chain
+  private resolveLibraries = async (
+    _name: string,
+    _libraries?: Record<string, string>,
+    _deterministic?: DeterministicDeployOptions
+  ): Promise<Record<string, string>> => {
+    const artifact = await hre.artifacts.readArtifact(_name);
+    const linked: Record<string, string> = {};
+    for (const fullyQualifiedName of getLinkedLibraryNames(artifact.linkReferences)) {
+      const name = fullyQualifiedName.slice(fullyQualifiedName.lastIndexOf(':') + 1);
+      const id = _libraries?.[fullyQualifiedName] ?? _libraries?.[name] ?? name;
+      const d = this.findDeployment(id);
+      if (d?.address !== undefined) {
+        if (_deterministic !== undefined && d.deterministic === undefined)
+          throw new Error(`Library [${id}] of deterministic deployment [${_name}] was not deployed deterministically`);
+        linked[fullyQualifiedName] = d.address;
+        continue;
+      }
+      const log = `${name} (Library)`;
+      const library =
+        _deterministic !== undefined
+          ? await this.deployDeterministic<BaseContract>(
+              id,
+              fullyQualifiedName,
+              [],
+              { type: _deterministic.type, factory: _deterministic.factory, salt: fullyQualifiedName },
+              log
+            )
+          : await this.deployLinked<BaseContract>(id, fullyQualifiedName, [], _libraries, log);
+      linked[fullyQualifiedName] = await resolveAddress(library.target);
+    }
+    return linked;
+  };
+
+  // registers a contract created by another transaction (e.g. by a factory), so it can be loaded on later runs
+  public registerDeployment = async <T>(
+    _id: string,
+    _name: string,
+    _address: string,
+    _receipt?: TransactionReceipt | null
+  ): Promise<T> => {
+    const d = this.findDeployment(_id);
+    if (d !== null && d.address?.toLowerCase() !== _address.toLowerCase()) {
+      this.warn(`- replacing [${chalk.white(_id)}] @ [${chalk.white(d.address ?? 'not deployed')}]`);
+      this.removeDeployment(_id);
+    }
+
+    // register
+    if (this.findDeployment(_id) === null) {
+      this.log(chalk.blue(`- registering [${chalk.white(_name)}]`));
+      const i = this.setDeploymentHash(_id, _receipt?.hash ?? '');
+      await this.setDeploymentDetails(_id, _name, null, _address);
+      if (!!_receipt) {
+        // gas is accounted to the creating transaction
+        i.deployer = _receipt.from;
+        i.blockNumber = _receipt.blockNumber;
+      }
+      this.setDeploymentAddress(_id, _name, getAddress(_address));
+    }
+
+    return await this.load<T>(_id, _name);
+  };
+
+  // the callback runs again on cached runs to check its inputs, so it must only deploy (no other side effects)
+  public deploy = async <T>(
+    _id: string | undefined,
+    _name: string,
+    _callback: () => DeployedContract<T> | Promise<DeployedContract<T>>,
+    _log?: string
+  ): Promise<T> => {
+    // check inputs of cached deployment
+    const d = this.findDeployment(_id);
+    if (d?.fingerprint !== undefined) {
+      const tx = await this.captureTransaction(async () => await _callback());
+      const fingerprint = tx?.data ? await this.createDeployFingerprint(_name, tx.data) : null;
+      if (this.checkInputChanges(_id!, _log ?? _name, d.fingerprint, fingerprint)) this.removeDeployment(_id!);
+    }
+
+    // check if id exist
+    const cached = await this.loadCachedDeployment<T>(_id, _name, _log);
+    if (cached !== null) return cached;
+    if (this.pendingSendGroup !== null) throw new Error('Deployments are not possible in a send group');
+
+    // export for offline signing
+    if (this.offline !== undefined) return await this.exportOfflineDeployment<T>(_id, _name, _callback, _log);
+
+    // deploy
+    const hasId = (_id ?? '') !== '';
+    this.log(chalk.blue(`- deploying [${chalk.white(_log ?? _name)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)}`));
+    this.emit({ type: DeployEventType.DeployStarted, id: _id, name: _name, log: _log ?? _name });
+    const sent: TransactionRequest[] = [];
+    this.applyWalletProvider();
+    const c = await this.intercept(this.createSendMiddleware(sent), _callback).finally(this.resetWalletProvider);
+    const initCode = c.deploymentTransaction()?.data;
+    const txHash = c.deploymentTransaction()?.hash!;
+    this.emit({ type: DeployEventType.TxBroadcast, kind: DeployEventKind.Deploy, id: _id, txHash });
+    const record = this.trackSender(
+      hasId
+        ? this.setDeploymentHash(_id!, txHash, {
+            verification: await this.createVerificationInfo(_name, initCode),
+            libraries: await this.createLibraryInfo(_name, initCode),
+            // only deployments through the helper's signer can be captured again to check the inputs
+            fingerprint:
+              initCode !== undefined && sent.length > 0
+                ? await this.createDeployFingerprint(_name, initCode)
+                : undefined,
+          })
+        : { txHash },
+      c.deploymentTransaction()
+    );
+
+    // wait until deployed (replacements keep the nonce, so the address stays the same)
+    const r = await this.waitForTransaction(record, { kind: DeployEventKind.Deploy, id: _id });
+    this.addLedgerEntry(GasLedgerEntryKind.Deploy, _id, r);
+    if (r?.status !== 1) {
+      this.emit({
+        type: DeployEventType.Reverted,
+        kind: DeployEventKind.Deploy,
+        id: _id,
+        log: _log ?? _name,
+        txHash,
+      });
+      throw new Error('Deployment failed');
+    }
+    if (hasId) {
+      await this.setDeploymentDetails(_id!, _name, r);
+      this.setDeploymentAddress(_id!, _log ?? _name, await resolveAddress(c.target));
+    }
+    this.log(chalk.blue(`  - deployed @ [${chalk.white(await resolveAddress(c.target))}]`));
+    this.addPlanStep(DeployPlanStepType.Deploy, _id, _log ?? _name, DeployPlanStepStatus.Execute, r);
+
+    return (c as BaseContract).connect(await this.getSigner()) as T;
+  };
+
+  public deployDeterministic = async <T>(
+    _id: string | undefined,
+    _name: string,
+    _args: any[],
+    _options: DeterministicDeployOptions,
+    _log?: string
+  ): Promise<T> => {
+    // init code
+    const type = _options.type ?? DeterministicDeployType.Create2;
+    const salt = isHexString(_options.salt, 32) ? _options.salt : id(_options.salt);
+    const d = this.findDeployment(_id);
+    const libraries = d?.libraries ?? (await this.resolveLibraries(_name, undefined, _options)); // see deployLinked
+    const factory = await this.getContractFactory(_name, libraries);
+    const initCode = (await factory.getDeployTransaction(..._args)).data;
+    const fingerprint = { ...(await this.createDeployFingerprint(_name, initCode)), type, salt };
+
+    // check inputs of cached deployment
+    if (this.checkInputChanges(_id!, _log ?? _name, d?.fingerprint, fingerprint)) this.removeDeployment(_id!);
+
+    // check if id exist
+    const cached = await this.loadCachedDeployment<T>(_id, _name, _log);
+    if (cached !== null) return cached;
+    if (this.offline !== undefined) throw new Error('Deterministic deployments are not supported in offline mode');
+    if (this.pendingSendGroup !== null) throw new Error('Deployments are not possible in a send group');
+
+    // check factory
+    const hasId = (_id ?? '') !== '';
+    const signer = await this.getSigner();
+    const factoryAddress =
+      _options.factory ??
+      (type === DeterministicDeployType.Create2 ? DETERMINISTIC_DEPLOYER_ADDRESS : CREATE3_FACTORY_ADDRESS);
+    if ((await hre.ethers.provider.getCode(factoryAddress)) === '0x')
+      throw new Error(`No ${type} factory deployed @ ${factoryAddress}`);
+
+    // predict address
+    const create3 = new Contract(factoryAddress, CREATE3_FACTORY_ABI, signer);
+    const address =
+      type === DeterministicDeployType.Create2
+        ? getCreate2Address(factoryAddress, salt, keccak256(initCode))
+        : ((await create3.getDeployed(await signer.getAddress(), salt)) as string);
+    const deterministic: DeterministicDeployInfo = { type, factory: factoryAddress, salt, address };
+
+    // check if already deployed
+    if ((await hre.ethers.provider.getCode(address)) !== '0x') {
+      this.log(chalk.blue(`- already deployed [${chalk.white(_log ?? _name)}]`));
+      this.emit({
+        type: DeployEventType.CachedHit,
+        kind: DeployEventKind.Deploy,
+        id: _id,
+        log: _log ?? _name,
+        address,
+      });
+      this.addPlanStep(DeployPlanStepType.Deploy, _id, _log ?? _name, DeployPlanStepStatus.Cached);
+      if (hasId) {
+        this.setDeploymentHash(_id!, '', {
+          deterministic,
+          verification: await this.createVerificationInfo(_name, initCode),
+          libraries: await this.createLibraryInfo(_name, initCode),
+          fingerprint,
+        });
+        await this.setDeploymentDetails(_id!, _name, null, address);
+        this.setDeploymentAddress(_id!, _log ?? _name, address);
+      }
+      const c = await this.getContractAt<T>(_name, address);
+      this.log(chalk.blue(`  - loaded @ [${chalk.white(address)}]`));
+      return c;
+    }
+
+    // deploy via factory
+    this.log(
+      chalk.blue(
+        `- deploying ${type} [${chalk.white(_log ?? _name)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)} @ [${chalk.white(address)}]`
+      )
+    );
+    this.emit({ type: DeployEventType.DeployStarted, id: _id, name: _name, log: _log ?? _name });
+    const tx = await this.intercept(this.createSendMiddleware([]), async () =>
+      type === DeterministicDeployType.Create2
+        ? await signer.sendTransaction({ to: factoryAddress, data: concat([salt, initCode]) })
+        : ((await create3.deploy(salt, initCode)) as ContractTransactionResponse)
+    );
+    this.emit({ type: DeployEventType.TxBroadcast, kind: DeployEventKind.Deploy, id: _id, txHash: tx.hash });
+    const record = this.trackSender(
+      hasId
+        ? this.setDeploymentHash(_id!, tx.hash, {
+            deterministic,
+            verification: await this.createVerificationInfo(_name, initCode),
+            libraries: await this.createLibraryInfo(_name, initCode),
+            fingerprint,
+          })
+        : { txHash: tx.hash },
+      tx
+    );
+
+    // wait until deployed
+    const r = await this.waitForTransaction(record, { kind: DeployEventKind.Deploy, id: _id });
+    this.addLedgerEntry(GasLedgerEntryKind.Deploy, _id, r);
+    if (r?.status !== 1 || (await hre.ethers.provider.getCode(address)) === '0x') {
+      this.emit({
+        type: DeployEventType.Reverted,
+        kind: DeployEventKind.Deploy,
+        id: _id,
+        log: _log ?? _name,
+        txHash: tx.hash,
+      });
+      throw new Error('Deterministic deployment failed');
+    }
+    if (hasId) {
+      await this.setDeploymentDetails(_id!, _name, r);
+      this.setDeploymentAddress(_id!, _log ?? _name, address);
+    }
+    this.log(chalk.blue(`  - deployed @ [${chalk.white(address)}]`));
+    this.addPlanStep(DeployPlanStepType.Deploy, _id, _log ?? _name, DeployPlanStepStatus.Execute, r);
+
+    return await this.getContractAt<T>(_name, address);
+  };
+
+  public deployProxy = async <T>(
+    _id: string,
+    _name: string,
+    _initializerArgs: any[],
+    _options?: ProxyDeployOptions,
+    _log?: string
+  ): Promise<T> => {
+    const kind = _options?.kind ?? ProxyKind.UUPS;
+    const log = _log ?? _name;
+
+    // implementation
+    const implementation = await this.deployImplementation(_id, _name, _options?.implementationArgs ?? [], log);
+    const implementationAddress = await resolveAddress(implementation.target);
+
+    // proxy
+    const initializer = _options?.initializer ?? 'initialize';
+    const initData =
+      initializer === false ? '0x' : implementation.interface.encodeFunctionData(initializer, _initializerArgs);
+    const proxyContract =
+      _options?.proxyContract ?? (kind === ProxyKind.UUPS ? 'ERC1967Proxy' : 'TransparentUpgradeableProxy');
+    const proxy = await this.deploy<BaseContract>(
+      _id,
+      proxyContract,
+      async () => {
+        const factory = await this.getContractFactory(proxyContract);
+        if (kind === ProxyKind.UUPS) return await factory.deploy(implementationAddress, initData);
+        const owner = _options?.initialOwner ?? (await this.getDeployerAddress());
+        return await factory.deploy(implementationAddress, owner, initData);
+      },
+      `${log} (Proxy)`
+    );
+
+    // history
+    this.setProxyImplementation(_id, kind, {
+      name: _name,
+      deploymentId: this.generateImplementationId(_id, _name),
+      address: implementationAddress,
+    });
+
+    return (await this.loadWithAddress(await resolveAddress(proxy.target), _name)) as T;
+  };
+
+  public upgrade = async <T>(
+    _id: string,
+    _newName: string,
+    _options?: ProxyUpgradeOptions,
+    _log?: string
+  ): Promise<T> => {
+    const p = this.findProxy(_id);
+    const d = this.findDeployment(_id);
+    if (p === null || d?.address === undefined) {
+      this.error(`  - No proxy found`);
+      throw new Error('No proxy found');
+    }
+    const log = _log ?? _newName;
+
+    // check if already upgraded
+    const current = p.implementations[p.implementations.length - 1];
+    if (current.name === _newName) {
+      this.log(chalk.blue(`- already upgraded [${chalk.white(log)}]`));
+      return await this.load<T>(_id, _newName);
+    }
+
+    // storage layout
+    if (!_options?.unsafeSkipStorageCheck) await this.checkStorageLayout(current, _newName);
+    else this.warn(`- skipping storage layout check [${chalk.white(log)}]`);
+
+    // implementation
+    const implementation = await this.deployImplementation(_id, _newName, _options?.implementationArgs ?? [], log);
+    const implementationAddress = await resolveAddress(implementation.target);
+    const data = !_options?.call
+      ? '0x'
+      : implementation.interface.encodeFunctionData(_options.call.fn, _options.call.args);
+
+    // upgrade
+    const sendId = `${_id}.upgrade.${p.implementations.length}`;
+    const sent = await this.send(sendId, `upgrade ${log}`, async () => {
+      if (p.kind === ProxyKind.UUPS) {
+        const uups = new Contract(d.address!, UUPS_ABI, hre.ethers.provider);
+        const legacy = (await hre.ethers.getContractFactory(current.name)).interface.getFunction('upgradeTo');
+        return data === '0x' && legacy !== null
+          ? await uups.upgradeTo.populateTransaction(implementationAddress)
+          : await uups.upgradeToAndCall.populateTransaction(implementationAddress, data);
+      }
+      const adminSlot = await hre.ethers.provider.getStorage(d.address!, ERC1967_ADMIN_SLOT);
+      const admin = new Contract(getAddress(dataSlice(adminSlot, 12)), PROXY_ADMIN_ABI, hre.ethers.provider);
+      return await admin.upgradeAndCall.populateTransaction(d.address!, implementationAddress, data);
+    });
+
+    // not executed yet (proposed to Safe / exported / reverted), keep the history for the next run
+    if (sent === false) {
+      const pending = this.safe !== undefined || this.offline !== undefined;
+      this.warn(`- upgrade ${pending ? 'pending' : 'failed'} [${chalk.white(log)}]`);
+      throw new Error(pending ? 'Upgrade pending' : 'Upgrade failed');
+    }
+
+    // history
+    this.setProxyImplementation(_id, p.kind, {
+      name: _newName,
+      deploymentId: this.generateImplementationId(_id, _newName),
+      address: implementationAddress,
+      upgradeSendId: sendId,
+    });
+
+    return await this.load<T>(_id, _newName);
+  };
+
+  public getProxyHistory = (_id: string): ContractImplementationInfo[] => {
+    return this.findProxy(_id)?.implementations ?? [];
+  };
+
+  private deployImplementation = async (_id: string, _name: string, _args: any[], _log: string) => {
+    const implementationId = this.generateImplementationId(_id, _name);
+    const c = await this.deployLinked<BaseContract>(
+      implementationId,
+      _name,
+      _args,
+      undefined,
+      `${_log} (Implementation)`
+    );
+
+    // keep layout of deployed implementation, as the source might change later
+    if (this.loadStorageLayout(implementationId) === null) {
+      const layout = await getStorageLayout(_name);
+      if (layout !== null) this.saveStorageLayout(implementationId, layout);
+    }
+
+    return c;
+  };
+
+  private checkStorageLayout = async (_current: ContractImplementationInfo, _newName: string) => {
+    this.log(chalk.blue(`- checking storage layout [${chalk.white(`${_current.name} => ${_newName}`)}]`));
+    const oldLayout = this.loadStorageLayout(_current.deploymentId) ?? (await getStorageLayout(_current.name));
+    const newLayout = await getStorageLayout(_newName);
+    if (oldLayout === null || newLayout === null) {
+      this.error(`  - No storage layout found (add "storageLayout" to outputSelection)`);
+      throw new Error('No storage layout found');
+    }
+
+    // compare
+    const issues = compareStorageLayouts(oldLayout, newLayout);
+    if (issues.length > 0) {
+      for (const i of issues) this.error(`  - ${i.kind}: ${i.message}`);
+      throw new Error('Incompatible storage layout');
+    }
+    this.log(chalk.blue(`  - compatible`));
+  };
+
+  public call = async <T>(
+    _id: string | undefined,
+    _log: string,
+    _callback: () => Promise<T>,
+    _functionFragment: FunctionFragment | null = null
+  ): Promise<T> => {
+    // check inputs of cached call (a failing call keeps the cached result)
+    let c = this.findCall(_id);
+    let checked: { result: T; calls: string[] } | null = null;
+    if (c?.fingerprint !== undefined) {
+      try {
+        checked = await this.captureCalls(_callback);
+      } catch (e) {
+        this.warn(`- could not check inputs [${chalk.white(_log)}] (${e instanceof Error ? e.message : e})`);
+      }
+    }
+    if (checked !== null) {
+      const fingerprint = { calls: checked.calls.join(',') };
+      if (this.checkInputChanges(_id!, _log, c!.fingerprint, fingerprint)) {
+        this.setCallResult(_id!, checked.result, fingerprint);
+        this.addPlanStep(DeployPlanStepType.Call, _id, _log, DeployPlanStepStatus.Execute);
+        return checked.result;
+      }
+    }
+
+    // check if id exist
+    if (c !== null) {
+      // return previous result
+      this.log(chalk.blue(`- remembering [${chalk.white(_log)}]`));
+      this.emit({ type: DeployEventType.CachedHit, kind: DeployEventKind.Call, id: _id, log: _log });
+      this.addPlanStep(DeployPlanStepType.Call, _id, _log, DeployPlanStepStatus.Cached);
+      return this.deserializeCallResult(c.result, _functionFragment);
+    }
+
+    // call
+    const hasId = (_id ?? '') !== '';
+    this.log(chalk.blue(`- calling [${chalk.white(_log)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)}`));
+    const { result: r, calls } = await this.captureCalls(_callback).catch(e => {
+      // reads exported deployments, the run stops until they are signed & imported
+      if (this.offline !== undefined && `${e?.message}`.startsWith('Offline export pending'))
+        this.warn(`  - depends on exported deployments, stopping`);
+      throw e;
+    });
+    if (hasId) this.setCallResult(_id!, r, { calls: calls.join(',') });
+    this.emit({ type: DeployEventType.CallExecuted, id: _id, log: _log });
+    this.addPlanStep(DeployPlanStepType.Call, _id, _log, DeployPlanStepStatus.Execute);
+
+    return r;
+  };
+
+  // true, if executed (now or on an earlier run)
+  // the callback runs again on cached runs to check its inputs, so it must only send (no other side effects)
+  public send = async (
+    _id: string | undefined,
+    _log: string,
+    _callback: SendCallback,
+    _options?: SendOptions
+  ): Promise<boolean> => {
+    return (await this.executeSend(_id, _log, _callback, _options, false)) !== false;
+  };
+
+  // like send, but returns the receipt & decoded events (fetched again for sends of earlier runs)
+  public sendWithResult = async (
+    _id: string | undefined,
+    _log: string,
+    _callback: SendCallback,
+    _options?: SendOptions
+  ): Promise<SendResult | false> => {
+    return await this.executeSend(_id, _log, _callback, _options, true);
+  };
+
+  private executeSend = async (
+    _id: string | undefined,
+    _log: string,
+    _callback: SendCallback,
+    _options: SendOptions | undefined,
+    _result: boolean
+  ): Promise<SendResult | false> => {
+    // check inputs of cached send
+    let s = this.findSend(_id);
+    let retry = false;
+    if (s?.fingerprint !== undefined) {
+      const tx = await this.captureTransaction(_callback);
+      const fingerprint = tx !== null ? await this.createSendFingerprint(tx) : null;
+      if (this.checkInputChanges(_id!, _log, s.fingerprint, fingerprint)) {
+        s = null;
+        retry = true;
+      }
+    }
+
+    // check if id exist
+    if (s !== null) {
+      switch (s.status) {
+        case ContractSendStatus.Executed:
+          this.log(chalk.blue(`- already executed [${chalk.white(_log)}]`));
+          this.emit({ type: DeployEventType.CachedHit, kind: DeployEventKind.Send, id: _id, log: _log });
+          this.addPlanStep(DeployPlanStepType.Send, _id, _log, DeployPlanStepStatus.Cached);
+          return await this.loadSendResult(_id, s.txHash, _options, _result, true);
+
+        case ContractSendStatus.Pending: {
+          this.log(chalk.blue(`- already executed [${chalk.white(_log)}]`));
+
+          // still pending in a send group, wait together with the group
+          if (this.pendingSendGroup !== null && (await this.isTransactionPending(s))) {
+            this.pendingSendGroup.push({ id: _id, log: _log, record: s, options: _options });
+            return { receipt: null, events: [] };
+          }
+
+          // check for mined tx (or one of its replacements), a nonce used by another transaction stops the run
+          const r = await this.waitForTransaction(s, { kind: DeployEventKind.Send, id: _id });
+          if (r === null) {
+            // dropped, send again
+            retry = true;
+            break;
+          }
+          if (r.status === 1) {
+            this.setSendStatus(_id!, ContractSendStatus.Executed, undefined, r);
+            this.emit({ type: DeployEventType.CachedHit, kind: DeployEventKind.Send, id: _id, log: _log });
+            this.addPlanStep(DeployPlanStepType.Send, _id, _log, DeployPlanStepStatus.Cached);
+            return await this.createSendResult(_id, r, _options, _result);
+          }
+
+          // reverted, try again
+          this.error(`  - reverted`);
+          this.emit({
+            type: DeployEventType.Reverted,
+            kind: DeployEventKind.Send,
+            id: _id,
+            log: _log,
+            txHash: s.txHash,
+          });
+          retry = true;
+          break;
+        }
+
+        case ContractSendStatus.Failed:
+          retry = true;
+          break;
+
+        case ContractSendStatus.Proposed: {
+          // check for execution by Safe
+          const executed = await this.findExecutedSafeTransaction(s);
+          if (executed === null) {
+            this.warn(`- proposed to Safe, waiting for execution [${chalk.white(_log)}]`);
+            return false;
+          }
+          if (executed.success) {
+            this.log(chalk.blue(`- executed by Safe [${chalk.white(_log)}]`));
+            s.safeTransaction!.safeTxHash = executed.safeTxHash;
+            this.setSendStatus(_id!, ContractSendStatus.Executed, executed.txHash);
+            this.saveSafeBatch();
+            return await this.loadSendResult(_id, executed.txHash, _options, _result);
+          }
+          this.error(`- reverted in Safe [${chalk.white(_log)}]`);
+          retry = true;
+          break;
+        }
+      }
+    }
+
+    // propose to Safe / export for offline signing
+    const hasId = (_id ?? '') !== '';
+    if (this.safe !== undefined) return await this.proposeSafeTransaction(_id, _log, _callback, retry);
+    if (this.offline !== undefined) return await this.exportOfflineSend(_id, _log, _callback, retry);
+
+    // send
+    this.log(
+      chalk.blue(`- send ${retry ? '(retry) ' : ''}[${chalk.white(_log)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)}`)
+    );
+    this.emit({ type: DeployEventType.SendStarted, id: _id, log: _log, retry });
+    const sent: TransactionRequest[] = [];
+    const tx = await this.sendCallback(_callback, sent);
+    this.emit({ type: DeployEventType.TxBroadcast, kind: DeployEventKind.Send, id: _id, txHash: tx.hash });
+    const record = this.trackSender(
+      hasId
+        ? this.setSendHash(
+            _id!,
+            tx.hash,
+            retry,
+            sent.length > 0 ? await this.createSendFingerprint(tx) : undefined // see deploy
+          )
+        : { txHash: tx.hash },
+      tx
+    );
+
+    // pipelined, the receipt is awaited by the send group
+    if (this.pendingSendGroup !== null) {
+      this.log(chalk.blue(`  - submitted [${chalk.white(tx.hash)}]`));
+      this.pendingSendGroup.push({ id: _id, log: _log, record, options: _options });
+      return { receipt: null, events: [] };
+    }
+
+    // wait until executed
+    let r: TransactionReceipt | null = null;
+    try {
+      r = await this.waitForTransaction(record, { kind: DeployEventKind.Send, id: _id });
+      this.addLedgerEntry(GasLedgerEntryKind.Send, _id, r);
+      if (r?.status !== 1) throw new Error('Tx reverted');
+      this.addPlanStep(DeployPlanStepType.Send, _id, _log, DeployPlanStepStatus.Execute, r);
+    } catch {
+      this.error(`  - reverted`);
+      this.emit({
+        type: DeployEventType.Reverted,
+        kind: DeployEventKind.Send,
+        id: _id,
+        log: _log,
+        txHash: record.txHash,
+      });
+      if (hasId) this.setSendStatus(_id!, ContractSendStatus.Failed, undefined, r);
+      if (this.throwOnRevert) throw new Error('Tx reverted');
+      else return false;
+    }
+    this.log(chalk.blue(`  - executed`));
+    if (hasId) this.setSendStatus(_id!, ContractSendStatus.Executed, undefined, r);
+    return await this.createSendResult(_id, r, _options, _result);
+  };
+
+  // events are only decoded for results & selected events (cached sends only, if not stored yet)
+  private createSendResult = async (
+    _id: string | undefined,
+    _receipt: TransactionReceipt | null,
+    _options: SendOptions | undefined,
+    _result: boolean,
+    _cached: boolean = false
+  ): Promise<SendResult> => {
+    const s = this.findSend(_id);
+    const store = s !== null && _options?.events !== undefined && (!_cached || s.events === undefined);
+    const events = _receipt !== null && (_result || store) ? await this.decodeEvents(_receipt) : [];
+    if (store && _receipt !== null) this.setSendEvents(s!.id, events, _options!.events!);
+
+    return { receipt: _receipt, events };
+  };
+
+  // the receipt of an earlier run is only fetched, if it's needed for the result
+  private loadSendResult = async (
+    _id: string | undefined,
+    _txHash: string,
+    _options: SendOptions | undefined,
+    _result: boolean,
+    _cached: boolean = false
+  ): Promise<SendResult> => {
+    const store = _options?.events !== undefined && (!_cached || this.findSend(_id)?.events === undefined);
+    if (!_result && !store) return { receipt: null, events: [] };
+    return await this.createSendResult(_id, await this.getReceipt(_txHash), _options, _result, _cached);
+  };
+
+  private getReceipt = async (_txHash: string): Promise<TransactionReceipt | null> => {
+    if (_txHash === '') return null;
+    return await hre.ethers.provider.getTransactionReceipt(_txHash);
+  };
+
+  /////////////////
+  // Events
+  /////////////////
+
+  // decodes the logs of any receipt with the ABIs of known deployments, unknown logs are skipped
+  public decodeEvents = async (_receipt: TransactionReceipt): Promise<DecodedEventLog[]> => {
+    const names = [...new Set(this.state.deployments.map(d => d.contractName))].filter(n => n !== undefined);
+    const events: DecodedEventLog[] = [];
+    for (const log of _receipt.logs) {
+      // contract at the address first, then all others (e.g. implementation events of proxies)
+      const d = this.state.deployments.find(d => d.address?.toLowerCase() === log.address.toLowerCase());
+      const candidates =
+        d?.contractName !== undefined ? [d.contractName, ...names.filter(n => n !== d.contractName)] : names;
+      for (const name of candidates) {
+        const iface = await this.getEventInterface(name);
+        let parsed;
+        try {
+          parsed = iface?.parseLog(log) ?? null;
+        } catch {
+          continue; // same topic, but different indexed params
+        }
+        if (parsed === null) continue;
+        events.push({
+          address: log.address,
+          deploymentId: d?.id,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: parsed.args,
+          fragment: parsed.fragment,
+          logIndex: log.index,
+        });
+        break;
+      }
+    }
+    return events;
+  };
+
+  // decoded events of a deployment or send of the state
+  public getEvents = async (_id: string): Promise<DecodedEventLog[]> => {
+    const txHash = this.findSend(_id)?.txHash ?? this.findDeployment(_id)?.txHash ?? '';
+    const r = await this.getReceipt(txHash);
+    return r !== null ? await this.decodeEvents(r) : [];
+  };
+
+  // events stored by send (see SendOptions), without querying the chain
+  public getStoredEvents = (_id: string, _name?: string): ContractEventInfo[] => {
+    return (this.findSend(_id)?.events ?? []).filter(e => _name === undefined || e.name === _name);
+  };
+
+  private getEventInterface = async (_name: string): Promise<Interface | null> => {
+    if (!this.eventInterfaces.has(_name)) {
+      try {
+        this.eventInterfaces.set(_name, new Interface((await hre.artifacts.readArtifact(_name)).abi));
+      } catch {
+        this.eventInterfaces.set(_name, null);
+      }
+    }
+    return this.eventInterfaces.get(_name)!;
+  };
+
+  /////////////////
+  // Deployment Info
+  /////////////////
+
+  private findDeployment = (_id: string | undefined): ContractDeploymentInfo | null => {
+    if (_id === undefined || _id === '') return null;
+    return this.state.deployments.find(i => i.id === _id) ?? null;
+  };
+
+  public getDeployments = (): ContractDeploymentInfo[] => {
+    return this.state.deployments;
+  };
+
+  private loadCachedDeployment = async <T>(
+    _id: string | undefined,
+    _name: string,
+    _log?: string
+  ): Promise<T | null> => {
+    let d = this.findDeployment(_id);
+    if (d === null) return null;
+
+    // check for address / mined tx
+    if (d.address === undefined) {
+      const r = await this.waitForTransaction(d, { kind: DeployEventKind.Deploy, id: _id });
+      if (r === null) {
+        // dropped, deploy again
+        this.removeDeployment(_id!);
+        return null;
+      }
+      if (r.status !== 1) throw new Error('Tx reverted');
+      await this.setDeploymentDetails(_id!, _name, r);
+      this.setDeploymentAddress(_id!, _log ?? _name, r!.contractAddress ?? d.deterministic?.address);
+      d = this.findDeployment(_id)!;
+    }
+
+    // check if it was deployed
+    if (d.address === undefined) return null;
+
+    // load deployed
+    this.log(chalk.blue(`- loading [${chalk.white(_log ?? _name)}]`));
+    this.emit({
+      type: DeployEventType.CachedHit,
+      kind: DeployEventKind.Deploy,
+      id: _id,
+      log: _log ?? _name,
+      address: d.address,
+    });
+    this.addPlanStep(DeployPlanStepType.Deploy, _id, _log ?? _name, DeployPlanStepStatus.Cached);
+    await this.checkCode(d.address);
+    const c = await this.getContractAt<T>(_name, d.address);
+    this.log(chalk.blue(`  - loaded @ [${chalk.white(d.address)}]`));
+    return c;
+  };
+
+  private setDeploymentHash = (
+    _id: string,
+    _txHash: string,
+    _info?: Pick<ContractDeploymentInfo, 'deterministic' | 'verification' | 'libraries' | 'fingerprint'>
+  ) => {
+    let i = this.findDeployment(_id);
+    if (i === null) {
+      i = {
+        id: _id,
+        txHash: _txHash,
+        ..._info,
+        alternativeInfoFileID: this.alternativeInfoFileID,
+      };
+      this.state.deployments.push(i);
+    }
+    this.saveDeploymentInfo();
+    return i;
+  };
+
+  private removeDeployment = (_id: string) => {
+    this.state.deployments = this.state.deployments.filter(i => i.id !== _id);
+    this.saveDeploymentInfo();
+  };
+
+  private setDeploymentDetails = async (
+    _id: string,
+    _name: string,
+    _receipt: TransactionReceipt | null | undefined,
+    _address?: string
+  ) => {
+    const i = this.findDeployment(_id);
+    if (i === null) return;
+
+    // artifact
+    try {
+      const artifact = await hre.artifacts.readArtifact(_name);
+      const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+      i.contractName = fullyQualifiedName;
+      i.compilerVersion = (await hre.artifacts.getBuildInfo(fullyQualifiedName))?.solcLongVersion;
+    } catch {
+      i.contractName = _name;
+    }
+
+    // receipt
+    if (!!_receipt) {
+      const block = await _receipt.getBlock();
+      i.deployer = _receipt.from;
+      i.blockNumber = _receipt.blockNumber;
+      i.timestamp = block.timestamp;
+      i.gasUsed = _receipt.gasUsed.toString(10);
+      i.effectiveGasPrice = _receipt.gasPrice.toString(10);
+    }
+
+    // runtime code
+    const address = _address ?? _receipt?.contractAddress ?? i.deterministic?.address;
+    if (address !== undefined && address !== null)
+      i.bytecodeHash = keccak256(await hre.ethers.provider.getCode(address));
+  };
+
+  private setDeploymentAddress = (
+    _id: string,
+    _deploymentString: string | null,
+    _address?: string | null
+  ): ContractDeploymentInfo | null => {
+    if (_address === null) return null;
+
+    // info
+    let i = this.findDeployment(_id);
+    if (i !== null) i.address = _address;
+
+    // deployed log
+    if (_deploymentString !== null && _address !== undefined)
+      this.deployedLog.push(`${_deploymentString} = [${_address}]`);
+
+    this.saveDeploymentInfo();
+    return i;
+  };
+
+  /////////////////
+  // Proxy Info
+  /////////////////
+
+  private findProxy = (_id: string | undefined): ContractProxyInfo | null => {
+    if (_id === undefined || _id === '') return null;
+    return this.state.proxies.find(i => i.id === _id) ?? null;
+  };
+
+  private setProxyImplementation = (_id: string, _kind: ProxyKind, _implementation: ContractImplementationInfo) => {
+    let i = this.findProxy(_id);
+    if (i === null) {
+      i = {
+        id: _id,
+        kind: _kind,
+        implementations: [],
+        alternativeInfoFileID: this.alternativeInfoFileID,
+      };
+      this.state.proxies.push(i);
+    }
+
+    // only add, if not already the current implementation
+    const current = i.implementations[i.implementations.length - 1];
+    if (current?.deploymentId !== _implementation.deploymentId) i.implementations.push(_implementation);
+    this.saveDeploymentInfo();
+    return i;
+  };
+
+  private generateImplementationId = (_id: string, _name: string) => {
+    return `${_id}@${_name}`;
+  };
+
+  /////////////////
+  // Call Info
+  /////////////////
+
+  private findCall = (_id: string | undefined): ContractCallInfo | null => {
+    if (_id === undefined || _id === '') return null;
+    return this.state.calls.find(i => i.id === _id) ?? null;
+  };
+
+  private setCallResult = (_id: string, _result: any, _fingerprint?: InputFingerprint) => {
+    let i = this.findCall(_id);
+    if (i === null) {
+      i = {
+        id: _id,
+        result: this.serializeCallResult(_result),
+        fingerprint: _fingerprint,
+        alternativeInfoFileID: this.alternativeInfoFileID,
+      };
+      this.state.calls.push(i);
+    } else {
+      // re-executed
+      i.result = this.serializeCallResult(_result);
+      i.fingerprint = _fingerprint;
+    }
+    this.saveDeploymentInfo();
+    return i;
+  };
+
+  /////////////////
+  // Send Info
+  /////////////////
+
+  private findSend = (_id: string | undefined): ContractSendInfo | null => {
+    if (_id === undefined || _id === '') return null;
+    return this.state.sends.find(i => i.id === _id) ?? null;
+  };
+
+  private setSendHash = (
+    _id: string,
+    _txHash: string,
+    _retry: boolean,
+    _fingerprint?: InputFingerprint,
+    _safeTransaction?: SafeTransactionInfo
+  ) => {
+    const status = _safeTransaction !== undefined ? ContractSendStatus.Proposed : ContractSendStatus.Pending;
+    let i = this.findSend(_id);
+    if (i === null) {
+      i = {
+        id: _id,
+        txHash: _txHash,
+        status: status,
+        safeTransaction: _safeTransaction,
+        fingerprint: _fingerprint,
+        alternativeInfoFileID: this.alternativeInfoFileID,
+      };
+      this.state.sends.push(i);
+    } else if (_retry) {
+      // set new tx hash
+      i.txHash = _txHash;
+      i.replacedTxHashes = undefined;
+      i.from = undefined;
+      i.nonce = undefined;
+      i.status = status;
+      i.blockNumber = undefined;
+      i.gasUsed = undefined;
+      i.effectiveGasPrice = undefined;
+      i.events = undefined;
+      i.timelock = undefined;
+      i.safeTransaction = _safeTransaction;
+      i.fingerprint = _fingerprint;
+    }
+    this.saveDeploymentInfo();
+    return i;
+  };
+
+  private setSendStatus = (
+    _id: string,
+    _status: ContractSendStatus,
+    _txHash?: string,
+    _receipt?: TransactionReceipt | null
+  ) => {
+    let i = this.findSend(_id);
+    if (i !== null) {
+      i.status = _status;
+      if (_txHash !== undefined) i.txHash = _txHash;
+      if (!!_receipt) {
+        i.blockNumber = _receipt.blockNumber;
+        i.gasUsed = _receipt.gasUsed.toString(10);
+        i.effectiveGasPrice = _receipt.gasPrice.toString(10);
+      }
+      this.saveDeploymentInfo();
+    }
+    return i;
+  };
+
+  private setSendEvents = (_id: string, _events: DecodedEventLog[], _names: string[]) => {
+    const i = this.findSend(_id);
+    if (i === null) return;
+    i.events = _events
+      .filter(e => _names.includes(e.name) || _names.includes(e.signature))
+      .map(e => ({
+        address: e.address,
+        name: e.name,
+        args: this.serializeEventArgs(e.args, e.fragment.inputs),
+        logIndex: e.logIndex,
+      }));
+    this.saveDeploymentInfo();
+  };
+
+  private setSendTimelock = (_id: string, _operation: TimelockOperationInfo) => {
+    const i = this.findSend(_id);
+    if (i !== null) {
+      i.timelock = _operation;
+      this.saveDeploymentInfo();
+    }
+    return _operation;
+  };
+
+  /////////////////
+  // Safe
+  /////////////////
+
+  private proposeSafeTransaction = async (
+    _id: string | undefined,
+    _log: string,
+    _callback: SendCallback,
+    _retry: boolean
+  ): Promise<false> => {
+    if ((_id ?? '') === '') throw new Error('Safe proposals need an id');
+    this.log(chalk.blue(`- propose to Safe ${_retry ? '(retry) ' : ''}[${chalk.white(_log)}]`));
+
+    // capture instead of sending
+    const tx = await this.captureTransaction(_callback);
+    if (tx === null) throw new Error('No transaction to propose');
+    const fingerprint = await this.createSendFingerprint(tx);
+    const safeTransaction: SafeTransactionInfo = {
+      to: getAddress(fingerprint.to),
+      value: fingerprint.value,
+      data: fingerprint.data,
+      nonce: await this.getSafeNonce(),
+    };
+    this.setSendHash(_id!, '', _retry, fingerprint, safeTransaction);
+    this.saveSafeBatch();
+    this.log(
+      chalk.blue(`  - added to [${chalk.white(this.storage.location(this.chainId, this.generateSafeBatchFileName()))}]`)
+    );
+
+    return false;
+  };
+
+  private findExecutedSafeTransaction = async (_send: ContractSendInfo): Promise<SafeExecutedTransaction | null> => {
+    const t = _send.safeTransaction;
+    if (t === undefined) return null;
+    const executed = await this.loadExecutedSafeTransactions();
+
+    // same call, executed at or after the nonce of the proposal (proposals without nonce predate it)
+    const matches = executed.filter(
+      e =>
+        e.to === t.to.toLowerCase() &&
+        e.value === t.value &&
+        e.data === t.data.toLowerCase() &&
+        (t.nonce === undefined || e.nonce >= t.nonce)
+    );
+    return matches.find(e => e.success) ?? matches[0] ?? null;
+  };
+
+  private getSafeNonce = async (): Promise<number> => {
+    const address = getAddress(this.safe!.address);
+    if ((await hre.ethers.provider.getCode(address)) === '0x') throw new Error(`No Safe at [${address}]`);
+    return Number(await new Contract(address, SAFE_ABI, hre.ethers.provider).nonce());
+  };
+
+  private loadExecutedSafeTransactions = async (): Promise<SafeExecutedTransaction[]> => {
+    if (this.safeExecutedTransactions !== null) return this.safeExecutedTransactions;
+    this.safeExecutedTransactions = [];
+    if (this.safe?.transactionServiceUrl === undefined) {
+      this.warn(`- no Safe transaction service configured, can't detect executed proposals`);
+      return this.safeExecutedTransactions;
+    }
+
+    // load all executed transactions (multi sends are flattened)
+    let url: string | null =
+      `${this.safe.transactionServiceUrl.replace(/\/$/, '')}/api/v1/safes/${getAddress(this.safe.address)}` +
+      `/multisig-transactions/?executed=true&limit=100`;
+    while (url !== null) {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Safe transaction service error ${response.status}`);
+      const page: SafeServicePage = await response.json();
+      for (const r of page.results ?? []) {
+        const inner: SafeServiceCall[] =
+          r.dataDecoded?.method === 'multiSend' ? (r.dataDecoded.parameters?.[0]?.valueDecoded ?? []) : [r];
+        for (const i of inner)
+          this.safeExecutedTransactions.push({
+            to: `${i.to}`.toLowerCase(),
+            value: `${i.value ?? '0'}`,
+            data: `${i.data ?? '0x'}`.toLowerCase(),
+            nonce: Number(r.nonce),
+            safeTxHash: r.safeTxHash,
+            txHash: r.transactionHash,
+            success: r.isSuccessful === true,
+          });
+      }
+      url = page.next ?? null;
+    }
+
+    return this.safeExecutedTransactions;
+  };
+
+  public saveSafeBatch = () => {
+    if (this.dryRun || this.safe === undefined) return;
+
+    // Safe Transaction Builder format
+    const proposed = this.state.sends.filter(i => i.status === ContractSendStatus.Proposed);
+    const batch = {
+      version: '1.0',
+      chainId: `${this.chainId}`,
+      createdAt: Date.now(),
+      meta: {
+        name: 'DeployHelper Batch',
+        description: proposed.map(i => i.id).join(', '),
+        createdFromSafeAddress: getAddress(this.safe.address),
+      },
+      transactions: proposed.map(i => ({
+        to: i.safeTransaction!.to,
+        value: i.safeTransaction!.value,
+        data: i.safeTransaction!.data,
+        contractMethod: null,
+        contractInputsValues: null,
+      })),
+    };
+    this.storage.write(this.chainId, this.generateSafeBatchFileName(), JSON.stringify(batch, null, 2));
+  };
+
+  /////////////////
+  // Timelock
+  /////////////////
+
+  // schedules the calls of the callbacks (as batch, if more than one) & executes them on a run after the delay
+  public scheduleTimelock = async (
+    _id: string,
+    _log: string,
+    _timelock: string,
+    _callbacks: SendCallback | SendCallback[],
+    _options?: TimelockScheduleOptions
+  ): Promise<TimelockOperationStatus> => {
+    const scheduleId = this.generateTimelockSendId(_id, 'schedule');
+    const executeId = this.generateTimelockSendId(_id, 'execute');
+    if (this.findSend(executeId)?.status === ContractSendStatus.Executed) {
+      this.log(chalk.blue(`- already executed [${chalk.white(_log)}]`));
+      return TimelockOperationStatus.Executed;
+    }
+
+    this.openCategory(`Timelock [${_log}]`);
+    try {
+      const timelock = new Contract(_timelock, TIMELOCK_ABI, hre.ethers.provider);
+      const operation = await this.createTimelockOperation(_id, timelock, _callbacks, _options);
+
+      // cancelled operations are scheduled again
+      const s = this.findSend(scheduleId);
+      if (
+        s?.status === ContractSendStatus.Executed &&
+        s.timelock !== undefined &&
+        (await timelock.getTimestamp(s.timelock.operationId)) === 0n
+      ) {
+        this.warn(`- cancelled, scheduling again [${chalk.white(_log)}]`);
+        this.setSendStatus(scheduleId, ContractSendStatus.Failed);
+      }
+
+      // schedule
+      const method = operation.calls.length === 1 ? 'schedule' : 'scheduleBatch';
+      const args = [...this.getTimelockArgs(operation), operation.delay];
+      const result = await this.send(
+        scheduleId,
+        `schedule ${_log}`,
+        async () => await this.sendTimelock(_timelock, method, args)
+      );
+      if (!result) return TimelockOperationStatus.Unscheduled;
+
+      // keep the scheduled operation (inputs might have changed, but were not scheduled again)
+      let scheduled = this.findSend(scheduleId)?.timelock;
+      if (scheduled?.operationId !== operation.operationId) {
+        const timestamp: bigint = await timelock.getTimestamp(operation.operationId);
+        if (timestamp !== 0n) scheduled = this.setSendTimelock(scheduleId, { ...operation, eta: Number(timestamp) });
+      }
+      if (scheduled === undefined) throw new Error('Timelock operation not scheduled');
+
+      // wait for delay
+      const timestamp: bigint = await timelock.getTimestamp(scheduled.operationId);
+      if (timestamp === TIMELOCK_DONE_TIMESTAMP) {
+        this.log(chalk.blue(`- already executed [${chalk.white(_log)}]`));
+        await this.setTimelockExecuted(executeId, timelock, scheduled.operationId, this.findSend(scheduleId)!);
+        return TimelockOperationStatus.Executed;
+      }
+      const block = await hre.ethers.provider.getBlock('latest');
+      if (timestamp > BigInt(block!.timestamp)) {
+        const eta = new Date(Number(timestamp) * 1000).toISOString();
+        this.warn(`- pending until ${chalk.white(eta)} [${chalk.white(_log)}]`);
+        return TimelockOperationStatus.Pending;
+      }
+
+      // execute (values are sent along)
+      const value = scheduled.calls.reduce((t, c) => t + BigInt(c.value), 0n);
+      const executed = await this.send(
+        executeId,
+        `execute ${_log}`,
+        async () =>
+          await this.sendTimelock(
+            scheduled.address,
+            scheduled.calls.length === 1 ? 'execute' : 'executeBatch',
+            this.getTimelockArgs(scheduled),
+            value
+          )
+      );
+      return executed ? TimelockOperationStatus.Executed : TimelockOperationStatus.Pending;
+    } finally {
+      this.closeCategory();
+    }
+  };
+
+  public cancelTimelock = async (_id: string, _log: string): Promise<boolean> => {
+    const scheduled = this.getTimelockOperation(_id);
+    if (scheduled === null) throw new Error(`No scheduled timelock operation [${_id}]`);
+    const timelock = new Contract(scheduled.address, TIMELOCK_ABI, hre.ethers.provider);
+    if (!(await timelock.isOperationPending(scheduled.operationId))) {
+      this.log(chalk.blue(`- not pending [${chalk.white(_log)}]`));
+      return false;
+    }
+
+    // cancel (again, if it was scheduled again)
+    const cancelId = this.generateTimelockSendId(_id, 'cancel');
+    if (this.findSend(cancelId)?.status === ContractSendStatus.Executed)
+      this.setSendStatus(cancelId, ContractSendStatus.Failed);
+    const result = await this.send(
+      cancelId,
+      `cancel ${_log}`,
+      async () => await this.sendTimelock(scheduled.address, 'cancel', [scheduled.operationId])
+    );
+    return !!result;
+  };
+
+  public getTimelockOperation = (_id: string): TimelockOperationInfo | null => {
+    return this.findSend(this.generateTimelockSendId(_id, 'schedule'))?.timelock ?? null;
+  };
+
+  private createTimelockOperation = async (
+    _id: string,
+    _timelock: Contract,
+    _callbacks: SendCallback | SendCallback[],
+    _options?: TimelockScheduleOptions
+  ): Promise<Omit<TimelockOperationInfo, 'eta'>> => {
+    // capture calls
+    const calls: TimelockCallInfo[] = [];
+    for (const c of Array.isArray(_callbacks) ? _callbacks : [_callbacks]) {
+      const tx = await this.captureTransaction(c);
+      if (tx === null) throw new Error('No transaction to schedule');
+      const fingerprint = await this.createSendFingerprint(tx);
+      calls.push({ target: getAddress(fingerprint.to), value: fingerprint.value, data: fingerprint.data });
+    }
+
+    // salt & predecessor
+    const salt = _options?.salt ?? _id;
+    let predecessor = _options?.predecessor ?? ZeroHash;
+    if (!isHexString(predecessor, 32)) {
+      const p = this.getTimelockOperation(predecessor);
+      if (p === null) throw new Error(`Unknown timelock predecessor [${predecessor}]`);
+      predecessor = p.operationId;
+    }
+    const operation = {
+      address: getAddress(await _timelock.getAddress()),
+      calls,
+      predecessor,
+      salt: isHexString(salt, 32) ? salt : id(salt),
+      delay: (_options?.delay ?? ((await _timelock.getMinDelay()) as bigint)).toString(10),
+    };
+
+    // same hash as TimelockController
+    const single = calls.length === 1;
+    const operationId = keccak256(
+      AbiCoder.defaultAbiCoder().encode(
+        single
+          ? ['address', 'uint256', 'bytes', 'bytes32', 'bytes32']
+          : ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+        this.getTimelockArgs(operation)
+      )
+    );
+    return { ...operation, operationId };
+  };
+
+  // executed by someone else (or before a crash), the execution is looked up in the logs if possible
+  private setTimelockExecuted = async (
+    _executeId: string,
+    _timelock: Contract,
+    _operationId: string,
+    _schedule: ContractSendInfo
+  ) => {
+    let receipt: TransactionReceipt | null = null;
+    try {
+      const logs = await _timelock.queryFilter(
+        _timelock.filters.CallExecuted(_operationId),
+        _schedule.blockNumber ?? 0
+      );
+      if (logs.length > 0) receipt = await hre.ethers.provider.getTransactionReceipt(logs[0].transactionHash);
+    } catch (e) {
+      this.warn(`  - execution not found in the logs (${e instanceof Error ? e.message : e})`);
+    }
+    this.setSendHash(_executeId, receipt?.hash ?? '', this.findSend(_executeId) !== null);
+    this.setSendStatus(_executeId, ContractSendStatus.Executed, undefined, receipt);
+  };
+
+  private getTimelockArgs = (_operation: Pick<TimelockOperationInfo, 'calls' | 'predecessor' | 'salt'>): any[] => {
+    const c = _operation.calls;
+    return c.length === 1
+      ? [c[0].target, c[0].value, c[0].data, _operation.predecessor, _operation.salt]
+      : [c.map(i => i.target), c.map(i => i.value), c.map(i => i.data), _operation.predecessor, _operation.salt];
+  };
+
+  private sendTimelock = async (
+    _timelock: string,
+    _method: string,
+    _args: any[],
+    _value: bigint = 0n
+  ): Promise<TransactionRequest> => {
+    const timelock = new Contract(_timelock, TIMELOCK_ABI, hre.ethers.provider);
+    return await timelock
+      .getFunction(_method)
+      .populateTransaction(..._args, ...(_value > 0n ? [{ value: _value }] : []));
+  };
+
+  private generateTimelockSendId = (_id: string, _step: 'schedule' | 'execute' | 'cancel') => {
+    return `${_id}.${_step}`;
+  };
+
+  /////////////////
+  // Signer
+  /////////////////
+
+  // the middleware sees all transactions of the helper's signer while the callback runs
+  private intercept = async <T>(_middleware: DeploySignerMiddleware, _callback: () => T | Promise<T>): Promise<T> => {
+    this.middlewares.push(_middleware);
+    try {
+      return await _callback();
+    } finally {
+      this.middlewares.splice(this.middlewares.indexOf(_middleware), 1);
+    }
+  };
+
+  // applies fee caps & nonces of send groups, sent transactions are collected
+  private createSendMiddleware = (_sent: TransactionRequest[]): DeploySignerMiddleware => {
+    const capped = this.fees?.maxFeePerGas !== undefined || this.fees?.maxPriorityFeePerGas !== undefined;
+    return async (_tx, _next) => {
+      _sent.push(_tx);
+      let tx = _tx;
+      if (capped && tx.gasPrice == null) {
+        const fees = await this.getFees();
+        tx = {
+          ...tx,
+          maxFeePerGas: tx.maxFeePerGas ?? fees.maxFeePerGas,
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? fees.maxPriorityFeePerGas,
+        };
+      }
+      if (this.pendingSendGroup === null || tx.nonce != null) return await _next(tx);
+
+      // local nonces inside a send group
+      const from = getAddress(await this.getDeployerAddress());
+      const nonce = await this.allocateNonce(from);
+      try {
+        return await _next({ ...tx, nonce });
+      } catch (e) {
+        this.releaseNonce(from, nonce);
+        throw e;
+      }
+    };
+  };
+
+  // sends the transaction of the callback, unsent ones are sent with the helper's signer
+  private sendCallback = async (_callback: SendCallback, _sent: TransactionRequest[]): Promise<TransactionResponse> => {
+    return await this.intercept(this.createSendMiddleware(_sent), async () => {
+      const r = await _callback();
+      return isTransactionResponse(r) ? r : await (await this.getSigner()).sendTransaction(r);
+    });
+  };
+
+  /////////////////
+  // Fees & Replacements
+  /////////////////
+
+  // current fees within the caps, waits while the base fee is above the max fee
+  private getFees = async (): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> => {
+    const provider = hre.ethers.provider;
+    let waiting = false;
+    for (;;) {
+      const data = await provider.getFeeData();
+      const baseFee = (await provider.getBlock('latest'))?.baseFeePerGas ?? 0n;
+      const priority = bigIntMin(data.maxPriorityFeePerGas ?? 0n, this.fees?.maxPriorityFeePerGas);
+      const max = bigIntMin(data.maxFeePerGas ?? data.gasPrice ?? baseFee * 2n + priority, this.fees?.maxFeePerGas);
+      if (baseFee + priority <= max) return { maxFeePerGas: max, maxPriorityFeePerGas: priority };
+
+      // wait
+      if (!waiting) this.warn(`  - base fee [${formatUnits(baseFee, 'gwei')} gwei] above max fee, waiting`);
+      waiting = true;
+      await new Promise(r => setTimeout(r, this.fees?.pollInterval ?? DEFAULT_POLL_INTERVAL));
+    }
+  };
+
+  // waits for the transaction or one of its replacements, pending transactions are sped up after the timeout
+  private waitForTransaction = async (
+    _record: TrackedTransaction,
+    _context: TxEventContext
+  ): Promise<TransactionReceipt | null> => {
+    const provider = hre.ethers.provider;
+    let since = Date.now();
+    let unknownSince: number | null = null;
+    let nonceUsed = false;
+    for (;;) {
+      // any of the transactions could be mined
+      const hashes = [_record.txHash, ...(_record.replacedTxHashes ?? [])];
+      for (const h of hashes) {
+        const r = await provider.getTransactionReceipt(h);
+        if (r === null) continue;
+        if (h !== _record.txHash) {
+          // follow the mined one
+          _record.replacedTxHashes = hashes.filter(i => i !== h);
+          _record.txHash = h;
+          this.saveDeploymentInfo();
+        }
+        this.emit({
+          type: DeployEventType.TxMined,
+          ..._context,
+          txHash: r.hash,
+          blockNumber: r.blockNumber,
+          gasUsed: r.gasUsed.toString(10),
+          effectiveGasPrice: r.gasPrice.toString(10),
+          success: r.status === 1,
+          address: r.contractAddress ?? undefined,
+        });
+        return r;
+      }
+
+      // pending (fresh transactions are not known to every node of a load balanced RPC yet)
+      let tx: TransactionResponse | null = null;
+      for (const h of hashes) tx ??= await provider.getTransaction(h);
+      if (tx !== null) this.trackSender(_record, tx);
+      unknownSince = tx === null ? (unknownSince ?? Date.now()) : null;
+
+      // dropped, if still unknown after the timeout & its nonce is free
+      if (unknownSince !== null && Date.now() - unknownSince >= (this.fees?.dropTimeout ?? DEFAULT_DROP_TIMEOUT)) {
+        // legacy records (or broadcasts before their sender was tracked) can't be checked, never send them twice
+        if (_record.from === undefined || _record.nonce === undefined) {
+          this.error(`  - unknown transaction without sender & nonce [${_record.txHash}]`);
+          throw new Error(
+            `Transaction [${_record.txHash}] is unknown and can't be checked for a drop. ` +
+              `If it was never mined, prune [${_context.id ?? ''}] to send it again`
+          );
+        }
+        const pending = await provider.getTransactionCount(_record.from, 'pending');
+        if (pending <= _record.nonce) {
+          this.warn(`  - dropped [${_record.txHash}]`);
+          return null;
+        }
+      }
+
+      // nonce used by an unknown transaction (receipts can lag behind, so check twice)
+      if (
+        _record.from !== undefined &&
+        _record.nonce !== undefined &&
+        (await provider.getTransactionCount(_record.from, 'latest')) > _record.nonce
+      ) {
+        if (nonceUsed) throw new Error('Nonce was used by another transaction');
+        nonceUsed = true;
+      }
+
+      // speed up
+      const timeout = this.fees?.speedUpTimeout;
+      if (tx !== null && timeout !== undefined && Date.now() - since >= timeout) {
+        this.warn(`  - pending for ${Math.round((Date.now() - since) / 1000)}s, speeding up`);
+        await this.replaceTransaction(_record, tx, { to: tx.to, data: tx.data, value: tx.value }, _context);
+        since = Date.now();
+      }
+      await new Promise(r => setTimeout(r, this.fees?.pollInterval ?? DEFAULT_POLL_INTERVAL));
+    }
+  };
+
+  // sender & nonce of the broadcast, stored to tell dropped transactions from not yet propagated ones
+  private trackSender = <R extends TrackedTransaction>(
+    _record: R,
+    _tx: { from: string; nonce: number } | null | undefined
+  ): R => {
+    if (!_tx || (_record.from !== undefined && _record.nonce !== undefined)) return _record;
+    _record.from = getAddress(_tx.from);
+    _record.nonce = _tx.nonce;
+    this.saveDeploymentInfo();
+    return _record;
+  };
+
+  // paid per gas at the moment (base fee & tip), maxFeePerGas is only the cap
+  private getCurrentFeePerGas = async (): Promise<bigint> => {
+    const data = await hre.ethers.provider.getFeeData();
+    const baseFee = (await hre.ethers.provider.getBlock('latest'))?.baseFeePerGas;
+    if (baseFee === null || baseFee === undefined) return data.gasPrice ?? 0n;
+    return baseFee + bigIntMin(data.maxPriorityFeePerGas ?? 0n, this.fees?.maxPriorityFeePerGas);
+  };
+
+  // rebroadcasts with the same nonce & bumped fees
+  private replaceTransaction = async (
+    _record: TrackedTransaction,
+    _tx: TransactionResponse,
+    _replacement: TransactionRequest,
+    _context: TxEventContext
+  ): Promise<boolean> => {
+    const bump = BigInt(100 + (this.fees?.speedUpPercent ?? DEFAULT_SPEED_UP_PERCENT));
+    const data = await hre.ethers.provider.getFeeData();
+    let fees: TransactionRequest;
+    if (_tx.maxFeePerGas !== null) {
+      const maxPriorityFeePerGas = bigIntMax((_tx.maxPriorityFeePerGas! * bump) / 100n, data.maxPriorityFeePerGas);
+      const maxFeePerGas = bigIntMax((_tx.maxFeePerGas * bump) / 100n, data.maxFeePerGas, maxPriorityFeePerGas);
+      if (
+        maxFeePerGas > (this.fees?.maxFeePerGas ?? maxFeePerGas) ||
+        maxPriorityFeePerGas > (this.fees?.maxPriorityFeePerGas ?? maxPriorityFeePerGas)
+      ) {
+        this.warn(`  - can't replace, fee cap reached`);
+        return false;
+      }
+      fees = { maxFeePerGas, maxPriorityFeePerGas };
+    } else {
+      const gasPrice = bigIntMax((_tx.gasPrice * bump) / 100n, data.gasPrice);
+      if (gasPrice > (this.fees?.maxFeePerGas ?? gasPrice)) {
+        this.warn(`  - can't replace, fee cap reached`);
+        return false;
+      }
+      fees = { gasPrice };
+    }
+
+    // send
+    const signer = await this.getSigner();
+    if (getAddress(await signer.getAddress()) !== getAddress(_tx.from))
+      throw new Error('Transaction was sent by another signer');
+    const tx = await signer.sendTransaction({
+      gasLimit: _tx.gasLimit,
+      ..._replacement,
+      ...fees,
+      nonce: _tx.nonce,
+      chainId: _tx.chainId,
+    });
+
+    // track
+    this.emit({ type: DeployEventType.TxReplaced, ..._context, txHash: tx.hash, replacedTxHash: _record.txHash });
+    _record.replacedTxHashes = [...(_record.replacedTxHashes ?? []), _record.txHash];
+    _record.txHash = tx.hash;
+    this.saveDeploymentInfo();
+    this.log(chalk.blue(`  - replaced by [${chalk.white(tx.hash)}]`));
+    return true;
+  };
+
+  public cancel = async (_id: string): Promise<boolean> => {
+    // find pending
+    const d = this.findDeployment(_id);
+    const s = this.findSend(_id);
+    const record: TrackedTransaction | null =
+      d !== null && d.address === undefined && d.txHash !== ''
+        ? d
+        : s?.status === ContractSendStatus.Pending
+          ? s
+          : null;
+    if (record === null) throw new Error(`No pending transaction [${_id}]`);
+    const context: TxEventContext = { kind: record === d ? DeployEventKind.Deploy : DeployEventKind.Send, id: _id };
+    this.log(chalk.blue(`- cancel [${chalk.white(_id)}]`));
+    const tx = await hre.ethers.provider.getTransaction(record.txHash);
+    if (tx === null) throw new Error('Transaction not found');
+    if (tx.blockNumber !== null) {
+      this.warn(`  - already mined`);
+      return false;
+    }
+
+    // replace with empty transaction to self
+    if (!(await this.replaceTransaction(record, tx, { to: tx.from, data: '0x', value: 0n, gasLimit: 21000n }, context)))
+      throw new Error('Could not cancel transaction');
+    const r = await this.waitForTransaction(record, context);
+    const mined = r !== null ? await hre.ethers.provider.getTransaction(r.hash) : null;
+    if (mined === null || mined.data !== '0x' || mined.to === null || getAddress(mined.to) !== getAddress(mined.from)) {
+      this.warn(`  - mined before it could be cancelled`);
+      return false;
+    }
+
+    // executed again on next run
+    if (record === d) this.removeDeployment(_id);
+    else this.setSendStatus(_id, ContractSendStatus.Failed, record.txHash);
+    this.log(chalk.blue(`  - cancelled`));
+    return true;
+  };
+
+  /////////////////
+  // Send Groups
+  /////////////////
+
+  // sends of the callback are independent: they are submitted back-to-back & their receipts are awaited together
+  public sendGroup = async (_log: string, _callback: () => Promise<void>): Promise<boolean> => {
+    if (this.pendingSendGroup !== null) throw new Error('Send groups can not be nested');
+    this.openCategory(`Send group [${_log}]`);
+
+    // submit
+    this.pendingSendGroup = [];
+    this.sendGroupNonces.clear();
+    let group: SendGroupEntry[];
+    try {
+      await _callback();
+    } finally {
+      group = this.pendingSendGroup;
+      this.pendingSendGroup = null;
+    }
+
+    // wait for all
+    if (group.length > 0) this.log(chalk.blue(`- waiting for [${chalk.white(group.length)}] transactions`));
+    const results = await Promise.all(
+      group.map(async g => {
+        const hasId = (g.id ?? '') !== '';
+        let r: TransactionReceipt | null = null;
+        try {
+          r = await this.waitForTransaction(g.record, { kind: DeployEventKind.Send, id: g.id });
+          this.addLedgerEntry(GasLedgerEntryKind.Send, g.id, r);
+          if (r?.status !== 1) throw new Error('Tx reverted');
+          if (hasId) this.setSendStatus(g.id!, ContractSendStatus.Executed, undefined, r);
+          await this.createSendResult(g.id, r, g.options, false);
+          this.addPlanStep(DeployPlanStepType.Send, g.id, g.log, DeployPlanStepStatus.Execute, r);
+          this.log(chalk.blue(`  - executed [${chalk.white(g.log)}]`));
+          return true;
+        } catch {
+          this.error(`  - reverted [${g.log}]`);
+          this.emit({
+            type: DeployEventType.Reverted,
+            kind: DeployEventKind.Send,
+            id: g.id,
+            log: g.log,
+            txHash: g.record.txHash,
+          });
+          if (hasId) this.setSendStatus(g.id!, ContractSendStatus.Failed, undefined, r);
+          return false;
+        }
+      })
+    );
+    this.closeCategory();
+
+    // check
+    const success = results.every(i => i);
+    if (!success && this.throwOnRevert) throw new Error('Tx reverted');
+    return success;
+  };
+
+  private allocateNonce = async (_from: string): Promise<number> => {
+    let n = this.sendGroupNonces.get(_from);
+    if (n === undefined) {
+      // after a crash: tracked transactions pending beyond the node's count are skipped, dropped ones are reused
+      const next = await hre.ethers.provider.getTransactionCount(_from, 'pending');
+      const reserved = new Set<number>();
+      const tracked: TrackedTransaction[] = [
+        ...this.state.sends.filter(s => s.status === ContractSendStatus.Pending),
+        ...this.state.deployments.filter(d => d.address === undefined),
+      ];
+      for (const t of tracked) {
+        if (t.txHash === '' || t.from === undefined || t.nonce === undefined) continue;
+        if (getAddress(t.from) === _from && t.nonce >= next && (await this.isTransactionPending(t)))
+          reserved.add(t.nonce);
+      }
+      n = { next, reserved };
+      this.sendGroupNonces.set(_from, n);
+    }
+
+    // next free
+    while (n.reserved.has(n.next)) n.next++;
+    return n.next++;
+  };
+
+  // nonce of a transaction, that was not broadcasted
+  private releaseNonce = (_from: string, _nonce: number) => {
+    const n = this.sendGroupNonces.get(_from);
+    if (n !== undefined && n.next === _nonce + 1) n.next = _nonce;
+  };
+
+  private isTransactionPending = async (_record: TrackedTransaction): Promise<boolean> => {
+    let known = false;
+    for (const h of [_record.txHash, ...(_record.replacedTxHashes ?? [])]) {
+      const tx = await hre.ethers.provider.getTransaction(h);
+      if (tx?.blockNumber != null) return false;
+      known ||= tx !== null;
+    }
+    return known;
+  };
+
+  /////////////////
+  // Offline Signing
+  /////////////////
+
+  private exportOfflineDeployment = async <T>(
+    _id: string | undefined,
+    _name: string,
+    _callback: () => DeployedContract<T> | Promise<DeployedContract<T>>,
+    _log?: string
+  ): Promise<T> => {
+    if ((_id ?? '') === '') throw new Error('Offline deployments need an id');
+    this.log(chalk.blue(`- export deploy [${chalk.white(_log ?? _name)}]`));
+
+    // capture instead of deploying
+    const tx = await this.captureTransaction(async () => await _callback());
+    if (!tx?.data) throw new Error('No deployment to export');
+    const split = await this.splitInitCode(_name, tx.data);
+    const inputs = (await hre.ethers.getContractFactory(_name)).interface.deploy.inputs;
+    const args =
+      split !== null ? this.describeValues(AbiCoder.defaultAbiCoder().decode(inputs, split.constructorArgs)) : '?';
+    const e = await this.addOfflineTransaction(
+      {
+        id: _id!,
+        type: OfflineTransactionType.Deploy,
+        description: `deploy ${_name}(${args})`,
+        contractName: _name,
+        fingerprint: await this.createDeployFingerprint(_name, tx.data),
+      },
+      tx
+    );
+    this.log(chalk.blue(`  - expected @ [${chalk.white(e.address)}]`));
+
+    // later steps can already use the expected address, calls to it stop the run (see call)
+    return await this.getContractAt<T>(_name, e.address!);
+  };
+
+  private exportOfflineSend = async (
+    _id: string | undefined,
+    _log: string,
+    _callback: SendCallback,
+    _retry: boolean
+  ): Promise<false> => {
+    if ((_id ?? '') === '') throw new Error('Offline sends need an id');
+    this.log(chalk.blue(`- export send ${_retry ? '(retry) ' : ''}[${chalk.white(_log)}]`));
+
+    // capture instead of sending
+    const tx = await this.captureTransaction(_callback);
+    if (tx === null) throw new Error('No transaction to export');
+    await this.addOfflineTransaction(
+      {
+        id: _id!,
+        type: OfflineTransactionType.Send,
+        description: await this.describeTransaction(tx),
+        fingerprint: await this.createSendFingerprint(tx),
+      },
+      tx
+    );
+    this.log(
+      chalk.blue(
+        `  - added to [${chalk.white(this.storage.location(this.chainId, this.generateOfflineBatchFileName()))}]`
+      )
+    );
+
+    return false;
+  };
+
+  private addOfflineTransaction = async (
+    _info: Omit<OfflineTransactionInfo, 'address' | 'transaction'>,
+    _tx: TransactionRequest
+  ): Promise<OfflineTransactionInfo> => {
+    const provider = hre.ethers.provider;
+    const from = getAddress(this.offline!.from);
+    const to = !!_tx.to ? await resolveAddress(_tx.to, provider) : null;
+    const data = _tx.data ?? '0x';
+    const value = BigInt(_tx.value ?? 0);
+
+    // nonces are assigned locally, as nothing gets broadcasted
+    this.offlineNonce ??= await provider.getTransactionCount(from, 'pending');
+    const nonce = this.offlineNonce++;
+
+    // gas can't be estimated against exported, but not yet mined deployments
+    let gasLimit: bigint | undefined;
+    if (to === null || !this.offlineTransactions.some(i => i.address === to)) {
+      try {
+        gasLimit = ((await provider.estimateGas({ from, to, data, value })) * 120n) / 100n;
+      } catch {}
+    }
+    if (gasLimit === undefined) {
+      if (this.offline!.gasLimit === undefined) throw new Error(`Could not estimate gas for [${_info.id}]`);
+      this.warn(`  - could not estimate gas, using fallback gas limit [${this.offline!.gasLimit}]`);
+      gasLimit = this.offline!.gasLimit;
+    }
+
+    // fees
+    const fees = await this.getFees();
+
+    // add
+    const info: OfflineTransactionInfo = {
+      ..._info,
+      address: to === null ? getCreateAddress({ from, nonce }) : undefined,
+      transaction: {
+        type: 2,
+        chainId: `${this.chainId}`,
+        nonce,
+        to,
+        data,
+        value: value.toString(10),
+        gasLimit: gasLimit.toString(10),
+        maxFeePerGas: fees.maxFeePerGas.toString(10),
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(10),
+      },
+    };
+    this.offlineTransactions = [...this.offlineTransactions.filter(i => i.id !== info.id), info];
+    this.saveOfflineBatch();
+    return info;
+  };
+
+  public saveOfflineBatch = () => {
+    if (this.dryRun || this.offline === undefined) return;
+    const batch: OfflineTransactionBatch = {
+      chainId: `${this.chainId}`,
+      from: getAddress(this.offline.from),
+      transactions: this.offlineTransactions,
+    };
+    this.storage.write(this.chainId, this.generateOfflineBatchFileName(), JSON.stringify(batch, null, 2));
+  };
+
+  // signed transactions are a JSON array of raw transactions (or objects with a raw field)
+  public importSignedTransactions = async (_file: string, _batchFile?: string) => {
+    if (this.dryRun) throw new Error('Signed transactions can not be imported in a dry run');
+    this.openCategory(`Import signed transactions [${this.chainId}]`);
+
+    // load
+    const data =
+      _batchFile !== undefined
+        ? fs.readFileSync(_batchFile, 'utf8')
+        : this.storage.read(this.chainId, this.generateOfflineBatchFileName());
+    if (data === null) throw new Error('No exported transactions found');
+    const batch: OfflineTransactionBatch = JSON.parse(data);
+    const signed: (string | { raw: string })[] = JSON.parse(fs.readFileSync(_file, 'utf8'));
+    if (!Array.isArray(signed)) throw new Error('Signed transactions must be a JSON array');
+    const transactions = signed.map((s, i) => {
+      const raw = typeof s === 'string' ? s : s?.raw;
+      if (typeof raw !== 'string' || !isHexString(raw))
+        throw new Error(`Invalid signed transaction [${i}], expected a raw transaction or { raw }`);
+      try {
+        return Transaction.from(raw);
+      } catch (e) {
+        throw new Error(`Invalid signed transaction [${i}] (${e instanceof Error ? e.message : e})`);
+      }
+    });
+
+    for (const tx of transactions) {
+      // check against export
+      const e = batch.transactions.find(i => i.transaction.nonce === tx.nonce);
+      if (e === undefined || tx.from === null || getAddress(tx.from) !== getAddress(batch.from))
+        throw new Error(`Unknown signed transaction [${tx.hash}]`);
+      const t = e.transaction;
+      if (
+        tx.chainId !== BigInt(t.chainId) ||
+        tx.to?.toLowerCase() !== t.to?.toLowerCase() ||
+        tx.data.toLowerCase() !== t.data.toLowerCase() ||
+        tx.value !== BigInt(t.value)
+      )
+        throw new Error(`Signed transaction does not match export [${e.id}]`);
+
+      // skip already executed
+      this.log(chalk.blue(`- import [${chalk.white(e.id)}] ${e.description}`));
+      const d = e.type === OfflineTransactionType.Deploy ? this.findDeployment(e.id) : null;
+      if (d?.address !== undefined || this.findSend(e.id)?.status === ContractSendStatus.Executed) {
+        this.warn(`  - already executed, skipping`);
+        continue;
+      }
+
+      // broadcast
+      if ((await hre.ethers.provider.getTransaction(tx.hash!)) === null)
+        await hre.ethers.provider.broadcastTransaction(tx.serialized);
+      this.log(chalk.blue(`  - broadcasted [${chalk.white(tx.hash)}]`));
+      this.emit({
+        type: DeployEventType.TxBroadcast,
+        kind: e.type === OfflineTransactionType.Deploy ? DeployEventKind.Deploy : DeployEventKind.Send,
+        id: e.id,
+        txHash: tx.hash!,
+      });
+
+      // record like any sent transaction, so it is awaited on the next run
+      if (e.type === OfflineTransactionType.Deploy) {
+        if (d !== null) this.removeDeployment(e.id);
+        const record = this.setDeploymentHash(e.id, tx.hash!, {
+          verification: await this.createVerificationInfo(e.contractName!, t.data),
+          libraries: await this.createLibraryInfo(e.contractName!, t.data),
+          fingerprint: e.fingerprint,
+        });
+        this.trackSender(record, { from: tx.from!, nonce: tx.nonce });
+      } else
+        this.trackSender(this.setSendHash(e.id, tx.hash!, true, e.fingerprint), { from: tx.from!, nonce: tx.nonce });
+    }
+
+    this.closeCategory();
+  };
+
+  private describeTransaction = async (_tx: TransactionRequest): Promise<string> => {
+    const to = !!_tx.to ? await resolveAddress(_tx.to, hre.ethers.provider) : '';
+    const data = _tx.data ?? '0x';
+    const value = BigInt(_tx.value ?? 0);
+    const suffix = value > 0n ? ` {value: ${formatEther(value)}}` : '';
+
+    // decode with ABI of known deployment
+    const name =
+      this.state.deployments.find(i => i.address?.toLowerCase() === to.toLowerCase())?.contractName ??
+      this.offlineTransactions.find(i => i.address === to)?.contractName;
+    if (name !== undefined) {
+      try {
+        const artifact = await hre.artifacts.readArtifact(name);
+        const f = new Interface(artifact.abi).parseTransaction({ data, value });
+        if (f !== null) return `${artifact.contractName}.${f.name}(${this.describeValues(f.args)})${suffix}`;
+      } catch {}
+    }
+    return `${to}${data.length >= 10 ? ` ${dataSlice(data, 0, 4)}` : ''}${suffix}`;
+  };
+
+  private describeValues = (_values: readonly any[]): string => {
+    return _values.map(v => (Array.isArray(v) ? `[${this.describeValues(v)}]` : `${v}`)).join(', ');
+  };
+
+  /////////////////
+  // Drift
+  /////////////////
+
+  public checkDrift = async (): Promise<DeploymentDriftInfo[]> => {
+    this.openCategory(`Drift [${this.chainId}]`);
+    const results: DeploymentDriftInfo[] = [];
+    for (const d of this.state.deployments) {
+      if (d.address === undefined) continue;
+      const r = await this.checkDeploymentDrift(d, d.address);
+      results.push(r);
+
+      // log
+      const message = `- ${r.status} [${chalk.white(r.id)}] @ [${chalk.white(r.address)}]${r.message ? ` ${r.message}` : ''}`;
+      if (r.status === DeploymentDriftStatus.Ok) this.log(chalk.blue(message));
+      else if (r.status === DeploymentDriftStatus.Unknown) this.warn(message);
+      else this.error(message);
+    }
+    const drifted = results.filter(
+      r => r.status !== DeploymentDriftStatus.Ok && r.status !== DeploymentDriftStatus.Unknown
+    ).length;
+    this.log(chalk.yellow(`- ${chalk.white(drifted)} of ${chalk.white(results.length)} deployments drifted`));
+    this.closeCategory();
+
+    return results;
+  };
+
+  private checkDeploymentDrift = async (
+    _deployment: ContractDeploymentInfo,
+    _address: string
+  ): Promise<DeploymentDriftInfo> => {
+    const result = { id: _deployment.id, address: _address };
+
+    // code
+    const code = await hre.ethers.provider.getCode(_address);
+    if (code === '0x') {
+      // check if it was ever deployed
+      const receipt =
+        _deployment.txHash !== '' ? await hre.ethers.provider.getTransactionReceipt(_deployment.txHash) : null;
+      const deployed = _deployment.bytecodeHash !== undefined || receipt?.status === 1;
+      return { ...result, status: deployed ? DeploymentDriftStatus.SelfDestructed : DeploymentDriftStatus.Missing };
+    }
+
+    // artifact
+    const name = _deployment.contractName ?? _deployment.verification?.contractName;
+    if (name === undefined) return { ...result, status: DeploymentDriftStatus.Unknown, message: 'no contract name' };
+    let artifact: Artifact;
+    try {
+      artifact = await hre.artifacts.readArtifact(name);
+    } catch {
+      return { ...result, status: DeploymentDriftStatus.Unknown, message: `no artifact for ${name}` };
+    }
+    const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+    const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+    const output = buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName];
+
+    // compare without immutables, metadata & linked libraries (if the linked addresses are unknown)
+    const libraries = _deployment.libraries;
+    const expected =
+      libraries !== undefined
+        ? linkBytecode(artifact.deployedBytecode, artifact.deployedLinkReferences, libraries)
+        : artifact.deployedBytecode;
+    const ranges = [
+      ...getImmutableRanges(output?.evm.deployedBytecode.immutableReferences),
+      ...(libraries === undefined ? getLinkRanges(artifact.deployedLinkReferences) : []),
+      ...getLibraryAddressRange(artifact.deployedBytecode),
+    ];
+    if (normalizeBytecode(code, ranges) !== normalizeBytecode(expected, ranges))
+      return { ...result, status: DeploymentDriftStatus.Mismatch, message: `differs from ${fullyQualifiedName}` };
+    return { ...result, status: DeploymentDriftStatus.Ok };
+  };
+
+  private checkCode = async (_address: string) => {
+    if ((await hre.ethers.provider.getCode(_address)) !== '0x') return;
+    this.error(`  - No code @ [${_address}]`);
+    throw new Error('No code at deployment address');
+  };
+
+  /////////////////
+  // Input Fingerprints
+  /////////////////
+
+  // stops the transaction of the callback before anything gets signed or broadcasted
+  // (transactions of other signers are stopped as well, if they use hre.ethers.provider)
+  private captureTransaction = async (_callback: () => Promise<any>): Promise<TransactionRequest | null> => {
+    const captured: TransactionRequest[] = [];
+    const abort = new Error('Transaction captured');
+    let foreign = false;
+    const stopForeign = () => {
+      foreign = true;
+      throw new Error('Transaction of another signer stopped');
+    };
     this.applyWalletProvider();
     try {
-      const c = await hre.ethers.getContractAt(_name, _address);
-      this.resetWalletProvider();
-      this.log(chalk.blue(`  - loaded @ [${chalk.white(_address)}]`));
-      return c as T;
+      const r = await runWithProviderCapture(
+        hre.ethers.provider,
+        { send: stopForeign },
+        async () =>
+          await this.intercept(async _tx => {
+            captured.push(_tx);
+            throw abort;
+          }, _callback)
+      );
+      if (isTransactionRequest(r)) captured.push(r);
+      else if (isTransactionResponse(r)) this.warn(`  - transaction was not sent with the signer of the helper`);
     } catch (e) {
-      this.error(`  - Could not load contract`);
+      if (foreign) this.warn(`  - could not check inputs, the transaction is not sent with the signer of the helper`);
+      else if (e !== abort) this.warn(`  - could not check inputs (${e instanceof Error ? e.message : e})`);
+    } finally {
       this.resetWalletProvider();
-      throw e;
     }
+    return captured[0] ?? null;
   };
 
-  public deploy = async <T>(
-    _id: string | undefined,
-    _name: string,
-    _callback: () => T &
-      BaseContract & {
-        deploymentTransaction(): ContractTransactionResponse;
-      },
-    _log?: string
-  ): Promise<T> => {
-    // check if id exist
-    let d = this.findDeployment(_id);
-    if (d !== null) {
-      // check for address / mined tx
-      if (d.address === undefined) {
-        const tx = await hre.ethers.provider.getTransaction(d.txHash);
-        if (tx !== null) {
-          const r = await tx!.wait();
-          this.setDeploymentAddress(_id!, _log ?? _name, r!.contractAddress);
-          d = this.findDeployment(_id)!;
-        }
+  private captureCalls = async <T>(_callback: () => Promise<T>): Promise<{ result: T; calls: string[] }> => {
+    // only reads of this callback are recorded, even if other calls run at the same time
+    const calls: string[] = [];
+    const provider = hre.ethers.provider;
+    const call = async (_tx: TransactionRequest) => {
+      const to = !!_tx.to ? await resolveAddress(_tx.to, provider) : '';
+      if (this.offlineTransactions.some(i => i.address !== undefined && i.address.toLowerCase() === to.toLowerCase()))
+        throw new Error(`Offline export pending, [${to}] is not deployed yet`);
+      calls.push(`${to.toLowerCase()}:${_tx.data ?? '0x'}`);
+    };
+    return { result: await runWithProviderCapture(provider, { call }, _callback), calls };
+  };
+
+  private createDeployFingerprint = async (_name: string, _initCode: string): Promise<InputFingerprint> => {
+    const split = await this.splitInitCode(_name, _initCode);
+    if (split === null) return { initCode: keccak256(_initCode) };
+    return { bytecode: keccak256(split.bytecode), constructorArgs: split.constructorArgs };
+  };
+
+  private createSendFingerprint = async (_tx: TransactionRequest | TransactionResponse): Promise<InputFingerprint> => {
+    return {
+      to: !!_tx.to ? (await resolveAddress(_tx.to, hre.ethers.provider)).toLowerCase() : '',
+      data: _tx.data ?? '0x',
+      value: BigInt(_tx.value ?? 0).toString(10),
+    };
+  };
+
+  // returns true, if the id should be executed again
+  private checkInputChanges = (
+    _id: string,
+    _log: string,
+    _old: InputFingerprint | undefined,
+    _new: InputFingerprint | null
+  ): boolean => {
+    if (_old === undefined || _new === null) return false;
+
+    // compare
+    const keys = [...new Set([...Object.keys(_old), ...Object.keys(_new)])];
+    const changes = keys.filter(k => _old[k] !== _new[k]);
+    if (changes.length === 0) return false;
+
+    // report
+    const fail = this.inputChangePolicy === InputChangePolicy.Fail;
+    const report = fail ? this.error : this.warn;
+    report(`- inputs changed [${chalk.white(_log)}] (${_id})`);
+    for (const k of changes) report(`  - ${k}: ${_old[k] ?? '-'} => ${_new[k] ?? '-'}`);
+
+    // policy
+    if (fail) throw new Error(`Inputs changed for ${_id}`);
+    if (this.inputChangePolicy === InputChangePolicy.Reexecute) {
+      this.warn(`  - re-executing`);
+      return true;
+    }
+    return false;
+  };
+
+  /////////////////
+  // Verification
+  /////////////////
+
+  public verifyAll = async () => {
+    this.openCategory('Verify');
+    const etherscan = await this.createEtherscan();
+    for (const d of this.state.deployments) {
+      if (d.address === undefined || d.verification === undefined) continue;
+      if (d.verification.status === VerificationStatus.Verified) continue;
+      await this.verifyDeployment(etherscan, d, d.address, d.verification);
+    }
+    this.closeCategory();
+  };
+
+  private verifyDeployment = async (
+    _etherscan: Etherscan,
+    _deployment: ContractDeploymentInfo,
+    _address: string,
+    _verification: ContractVerificationInfo
+  ) => {
+    this.log(chalk.blue(`- verifying [${chalk.white(_deployment.id)}] @ [${chalk.white(_address)}]`));
+    try {
+      // check
+      if (await _etherscan.isVerified(_address)) {
+        this.setDeploymentVerificationStatus(_deployment, VerificationStatus.Verified);
+        this.log(chalk.blue(`  - already verified`));
+        return;
       }
 
-      // check if it was deployed
-      if (d.address !== undefined) {
-        // load deployed
-        this.log(chalk.blue(`- loading [${chalk.white(_log ?? _name)}]`));
-        this.applyWalletProvider();
-        try {
-          const c = await hre.ethers.getContractAt(_name, d.address);
-          this.resetWalletProvider();
-          this.log(chalk.blue(`  - loaded @ [${chalk.white(d.address)}]`));
-          return c as T;
-        } catch (e) {
-          this.resetWalletProvider();
-          throw e;
-        }
+      // submit
+      const buildInfo = await hre.artifacts.getBuildInfo(_verification.contractName);
+      if (buildInfo === undefined) throw new Error(`No build info for ${_verification.contractName}`);
+      const input = { ...buildInfo.input, settings: { ...buildInfo.input.settings } };
+      if (_deployment.libraries !== undefined) input.settings.libraries = this.groupLibraries(_deployment.libraries);
+      const submit = await _etherscan.verify(
+        _address,
+        JSON.stringify(input),
+        _verification.contractName,
+        `v${buildInfo.solcLongVersion}`,
+        _verification.constructorArgs.replace(/^0x/, '')
+      );
+      if (!submit.isOk()) throw new Error(submit.message);
+
+      // wait for result
+      const r = await _etherscan.getVerificationStatus(submit.message);
+      if (!r.isSuccess() && !r.isAlreadyVerified()) throw new Error(r.message);
+      this.setDeploymentVerificationStatus(_deployment, VerificationStatus.Verified);
+      this.log(chalk.blue(`  - verified [${chalk.white(_etherscan.getContractUrl(_address))}]`));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : `${e}`;
+      if (/already verified/i.test(message)) {
+        this.setDeploymentVerificationStatus(_deployment, VerificationStatus.Verified);
+        this.log(chalk.blue(`  - already verified`));
+        return;
       }
+      this.setDeploymentVerificationStatus(_deployment, VerificationStatus.Failed, message);
+      this.error(`  - failed: ${message}`);
     }
+  };
 
-    // deploy
-    const hasId = (_id ?? '') !== '';
-    try {
-      // deploy
-      this.log(chalk.blue(`- deploying [${chalk.white(_log ?? _name)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)}`));
-      this.applyWalletProvider();
-      const tx = await _callback();
-      this.resetWalletProvider();
-      if (hasId) this.setDeploymentHash(_id!, tx.deploymentTransaction()?.hash!);
+  private createEtherscan = async (): Promise<Etherscan> => {
+    const { Etherscan } = await import('@nomicfoundation/hardhat-verify/etherscan');
+    if (this.verification !== undefined)
+      return new Etherscan(
+        this.verification.apiKey,
+        this.verification.apiUrl,
+        this.verification.browserUrl,
+        undefined // use given api url
+      );
+
+    // hardhat-verify config
+    const config = (hre.config as { etherscan?: EtherscanConfig }).etherscan;
+    const chainConfig = await Etherscan.getCurrentChainConfig(
+      hre.network.name,
+      hre.network.provider,
+      config?.customChains ?? []
+    );
+    return Etherscan.fromChainConfig(config?.apiKey, chainConfig);
+  };
 
-      // wait until deployed
-      const c = await tx.waitForDeployment();
-      if (hasId) this.setDeploymentAddress(_id!, _log ?? _name, await resolveAddress(c.target));
-      this.log(chalk.blue(`  - deployed @ [${chalk.white(await resolveAddress(c.target))}]`));
+  private createVerificationInfo = async (
+    _name: string,
+    _initCode?: string
+  ): Promise<ContractVerificationInfo | undefined> => {
+    const split = await this.splitInitCode(_name, _initCode);
+    if (split === null) return undefined;
+    return {
+      contractName: split.contractName,
+      constructorArgs: split.constructorArgs,
+      status: VerificationStatus.Unverified,
+    };
+  };
 
-      return c;
-    } catch (e) {
-      this.resetWalletProvider();
-      throw e;
+  private createLibraryInfo = async (
+    _name: string,
+    _initCode?: string
+  ): Promise<Record<string, string> | undefined> => {
+    if (_initCode === undefined) return undefined;
+    try {
+      const artifact = await hre.artifacts.readArtifact(_name);
+      const libraries = readLinkedLibraries(_initCode, artifact.linkReferences);
+      if (Object.keys(libraries).length === 0) return undefined;
+      return Object.fromEntries(Object.entries(libraries).map(([n, a]) => [n, getAddress(a)]));
+    } catch {
+      return undefined;
     }
   };
 
-  public call = async <T>(
-    _id: string | undefined,
-    _log: string,
-    _callback: () => Promise<T>,
-    _functionFragment: FunctionFragment | null = null
-  ): Promise<T> => {
-    // check if id exist
-    let c = this.findCall(_id);
-    if (c !== null) {
-      // return previous result
-      this.log(chalk.blue(`- remembering [${chalk.white(_log)}]`));
-      return this.deserializeCallResult(c.result, _functionFragment);
+  // solc input format (source => library => address)
+  private groupLibraries = (_libraries: Record<string, string>): Record<string, Record<string, string>> => {
+    const grouped: Record<string, Record<string, string>> = {};
+    for (const [fullyQualifiedName, address] of Object.entries(_libraries)) {
+      const split = fullyQualifiedName.lastIndexOf(':');
+      const source = fullyQualifiedName.slice(0, split);
+      grouped[source] = { ...grouped[source], [fullyQualifiedName.slice(split + 1)]: address };
     }
+    return grouped;
+  };
 
-    // call
-    const hasId = (_id ?? '') !== '';
-    this.log(chalk.blue(`- calling [${chalk.white(_log)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)}`));
-    const r = await _callback();
-    if (hasId) this.setCallResult(_id!, r);
+  private splitInitCode = async (_name: string, _initCode?: string) => {
+    if (_initCode === undefined) return null;
+    try {
+      // init code has to be the artifact bytecode followed by the constructor args
+      const artifact = await hre.artifacts.readArtifact(_name);
+      const bytecode = artifact.bytecode;
+      if (bytecode === '0x' || _initCode.length < bytecode.length) return null;
+      if (!bytecode.includes('__$') && !_initCode.startsWith(bytecode)) return null;
 
-    return r;
+      return {
+        contractName: `${artifact.sourceName}:${artifact.contractName}`,
+        bytecode: _initCode.slice(0, bytecode.length),
+        constructorArgs: `0x${_initCode.slice(bytecode.length)}`,
+      };
+    } catch {
+      return null;
+    }
   };
 
-  public send = async (
+  private setDeploymentVerificationStatus = (
+    _deployment: ContractDeploymentInfo,
+    _status: VerificationStatus,
+    _message?: string
+  ) => {
+    if (_deployment.verification === undefined) return;
+    _deployment.verification.status = _status;
+    _deployment.verification.message = _message;
+    this.saveDeploymentInfo();
+  };
+
+  /////////////////
+  // Plan
+  /////////////////
+
+  private addPlanStep = (
+    _type: DeployPlanStepType,
     _id: string | undefined,
     _log: string,
-    _callback: () => Promise<TransactionResponse>
-  ): Promise<boolean> => {
-    // check if id exist
-    let s = this.findSend(_id);
-    let retry = false;
-    if (s !== null) {
-      this.log(chalk.blue(`- already executed [${chalk.white(_log)}]`));
-      // check for mined tx
-      if (!s.success) {
-        const tx = await hre.ethers.provider.getTransaction(s.txHash);
-        if (tx !== null) {
-          try {
-            const r = await tx!.wait();
-            if (r?.status === 1) {
-              this.setSendSuccess(_id!);
-              return true;
-            }
-            throw new Error('Tx reverted');
-          } catch {
-            this.error(`  - reverted`);
-            // try again
-            retry = true;
-          }
-        }
-      } else return true;
-    }
+    _status: DeployPlanStepStatus,
+    _receipt?: TransactionReceipt | null
+  ) => {
+    if (!this.dryRun) return;
+    this.plan.push({
+      type: _type,
+      id: (_id ?? '') !== '' ? _id : undefined,
+      log: _log,
+      status: _status,
+      gas: _receipt?.gasUsed.toString(10),
+    });
+  };
 
-    // send
-    const hasId = (_id ?? '') !== '';
+  public getPlan = async (): Promise<DeployPlan> => {
+    const feePerGas = await this.getCurrentFeePerGas();
+    const totalGas = this.plan.reduce((t, s) => t + BigInt(s.gas ?? 0), 0n);
+    return {
+      chainId: this.chainId,
+      steps: this.plan,
+      totalGas: totalGas.toString(10),
+      feePerGas: feePerGas.toString(10),
+      totalCost: (totalGas * feePerGas).toString(10),
+    };
+  };
+
+  public printPlan = async () => {
+    const plan = await this.getPlan();
+    this.openCategory(`Plan [${plan.chainId}]`);
+    for (const s of plan.steps) {
+      const status = s.status === DeployPlanStepStatus.Cached ? chalk.gray(s.status) : chalk.green(s.status);
+      const gas = s.gas !== undefined ? chalk.blue(` (${chalk.white(s.gas)} gas)`) : '';
+      this.log(chalk.blue(`- ${status} ${s.type} [${chalk.white(s.log)}]${gas}`));
+    }
     this.log(
-      chalk.blue(`- send ${retry ? '(retry) ' : ''}[${chalk.white(_log)}]${hasId ? '' : chalk.blue(` [NO CACHE]`)}`)
+      chalk.yellow(
+        `- total: ${chalk.white(plan.totalGas)} gas @ ${chalk.white(formatUnits(plan.feePerGas, 'gwei'))} gwei = ${chalk.white(formatEther(plan.totalCost))} ETH`
+      )
     );
-    const tx = await _callback();
-    if (hasId) this.setSendHash(_id!, tx.hash, retry);
+    this.closeCategory();
+  };
 
-    // wait until executed
-    try {
-      const r = await tx!.wait();
-      if (r?.status !== 1) throw new Error('Tx reverted');
-    } catch {
-      this.error(`  - reverted`);
-      if (this.throwOnRevert) throw new Error('Tx reverted');
-      else return false;
-    }
-    this.log(chalk.blue(`  - executed`));
-    if (hasId) this.setSendSuccess(_id!);
-    return true;
+  public savePlan = async (_file?: string) => {
+    const data = JSON.stringify(await this.getPlan(), null, 2);
+    if (_file === undefined) return this.storage.write(this.chainId, 'plan.json', data);
+    fs.mkdirSync(path.dirname(_file), { recursive: true });
+    fs.writeFileSync(_file, data);
   };
 
   /////////////////
-  // Deployment Info
+  // Budget
   /////////////////
 
-  private findDeployment = (_id: string | undefined): ContractDeploymentInfo | null => {
-    if (_id === undefined || _id === '') return null;
-    return this.state.deployments.find(i => i.id === _id) ?? null;
-  };
-
-  private setDeploymentHash = (_id: string, _txHash: string) => {
-    let i = this.findDeployment(_id);
-    if (i === null) {
-      i = {
-        id: _id,
-        txHash: _txHash,
-        alternativeInfoFileID: this.alternativeInfoFileID,
+  // runs the script as dry run (on a snapshot or fork of the current chain) & compares the cost of all remaining
+  // steps with the deployer balance, call it before the script itself
+  public checkBudget = async (
+    _script: (_deploy: DeployHelper) => Promise<void>,
+    _options?: DeployBudgetOptions
+  ): Promise<DeployBudget> => {
+    if (this.dryRun) throw new Error('Budget checks are not possible in a dry run');
+    this.openCategory(`Budget [${this.chainId}]`);
+    try {
+      // balance & fees of the current chain
+      const deployer = await this.getDeployerAddress();
+      const balance = await hre.ethers.provider.getBalance(deployer);
+      const feePerGas = bigIntMin(await this.getCurrentFeePerGas(), this.fees?.maxFeePerGas);
+
+      // estimate
+      const steps = (await this.estimateSteps(_script, deployer)).filter(
+        s => s.status === DeployPlanStepStatus.Execute
+      );
+      const totalGas = steps.reduce((t, s) => t + BigInt(s.gas ?? 0), 0n);
+      const margin = BigInt(Math.round(_options?.margin ?? DEFAULT_BUDGET_MARGIN));
+      const totalCost = (totalGas * feePerGas * (100n + margin)) / 100n;
+      const shortfall = totalCost > balance ? totalCost - balance : 0n;
+      const budget: DeployBudget = {
+        deployer,
+        balance: balance.toString(10),
+        steps,
+        totalGas: totalGas.toString(10),
+        feePerGas: feePerGas.toString(10),
+        totalCost: totalCost.toString(10),
+        shortfall: shortfall.toString(10),
       };
-      this.state.deployments.push(i);
+      this.log(
+        chalk.blue(
+          `- [${chalk.white(steps.length)}] steps: ${chalk.white(totalGas)} gas @ ${chalk.white(formatUnits(feePerGas, 'gwei'))} gwei + ${margin}% = ${chalk.white(formatEther(totalCost))} ETH`
+        )
+      );
+      this.log(chalk.blue(`- balance of [${chalk.white(deployer)}]: ${chalk.white(formatEther(balance))} ETH`));
+      if (shortfall === 0n) return budget;
+
+      // shortfall
+      const message = `Insufficient balance of ${deployer}: missing ${formatEther(shortfall)} ETH`;
+      this.error(`- ${message}`);
+      if (_options?.confirm && (await this.confirm(`Continue anyway? (y/N) `))) return budget;
+      throw new Error(message);
+    } finally {
+      this.closeCategory();
     }
-    this.saveDeploymentInfo();
-    return i;
   };
 
-  private setDeploymentAddress = (
-    _id: string,
-    _deploymentString: string | null,
-    _address?: string | null
-  ): ContractDeploymentInfo | null => {
-    if (_address === null) return null;
+  private estimateSteps = async (
+    _script: (_deploy: DeployHelper) => Promise<void>,
+    _deployer: string
+  ): Promise<DeployPlanStep[]> => {
+    const network = hre.network.name;
+    const options: DeployHelperOptions = {
+      silent: true,
+      dryRun: true,
+      throwOnRevert: this.throwOnRevert,
+      inputChangePolicy: this.inputChangePolicy,
+      fees: this.fees,
+      storage: this.storage,
+    };
 
-    // info
-    let i = this.findDeployment(_id);
-    if (i !== null) i.address = _address;
+    // in-process network: on a snapshot, funded to estimate regardless of the balance
+    if (network === 'hardhat') {
+      const snapshot = await hre.network.provider.request({ method: 'evm_snapshot' });
+      try {
+        await hre.network.provider.request({
+          method: 'hardhat_setBalance',
+          params: [_deployer, `0x${(10n ** 30n).toString(16)}`],
+        });
+        return await this.runDryRun(_script, options);
+      } finally {
+        await hre.network.provider.request({ method: 'evm_revert', params: [snapshot] });
+      }
+    }
 
-    // deployed log
-    if (_deploymentString !== null && _address !== undefined)
-      this.deployedLog.push(`${_deploymentString} = [${_address}]`);
+    // other networks: on a fork, sent by the impersonated deployer
+    const url = (hre.network.config as HttpNetworkConfig).url;
+    if (url === undefined) throw new Error(`Network [${network}] can't be forked`);
+    return await runOnNetwork('hardhat', async () => {
+      try {
+        return await this.runDryRun(_script, { ...options, dryRunFork: { url, deployer: _deployer } });
+      } finally {
+        // the in-process network is shared, so it doesn't stay on the fork
+        await hre.network.provider.request({ method: 'hardhat_reset', params: [] });
+      }
+    });
+  };
 
-    this.saveDeploymentInfo();
-    return i;
+  private runDryRun = async (
+    _script: (_deploy: DeployHelper) => Promise<void>,
+    _options: DeployHelperOptions
+  ): Promise<DeployPlanStep[]> => {
+    const deploy = new DeployHelper(_options);
+    deploy.forceLoadLocal = this.forceLoadLocal;
+    deploy.dryRunLocal = _options.dryRunFork === undefined;
+    await deploy.init();
+    await _script(deploy);
+    return (await deploy.getPlan()).steps;
+  };
+
+  private confirm = async (_question: string): Promise<boolean> => {
+    if (!process.stdin.isTTY) return false;
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      return /^y(es)?$/i.test((await rl.question(_question)).trim());
+    } finally {
+      rl.close();
+    }
   };
 
   /////////////////
-  // Call Info
+  // Gas Ledger
   /////////////////
 
-  private findCall = (_id: string | undefined): ContractCallInfo | null => {
-    if (_id === undefined || _id === '') return null;
-    return this.state.calls.find(i => i.id === _id) ?? null;
-  };
-
-  private setCallResult = (_id: string, _result: any) => {
-    let i = this.findCall(_id);
-    if (i === null) {
-      i = {
-        id: _id,
-        result: this.serializeCallResult(_result),
+  // every mined transaction of the run, stored per info file
+  private addLedgerEntry = (
+    _kind: GasLedgerEntryKind,
+    _id: string | undefined,
+    _receipt: TransactionReceipt | null
+  ) => {
+    if (_receipt === null) return;
+    this.state.runs ??= [];
+    let run = this.state.runs.find(
+      i => i.startedAt === this.runStartedAt && i.alternativeInfoFileID === this.alternativeInfoFileID
+    );
+    if (run === undefined) {
+      run = {
+        startedAt: this.runStartedAt,
+        deployer: _receipt.from,
+        entries: [],
+        totalGasUsed: '0',
+        totalCost: '0',
         alternativeInfoFileID: this.alternativeInfoFileID,
       };
-      this.state.calls.push(i);
+      this.state.runs.push(run);
     }
+
+    // add
+    const cost = _receipt.gasUsed * _receipt.gasPrice;
+    run.entries.push({
+      kind: _kind,
+      id: (_id ?? '') !== '' ? _id : undefined,
+      txHash: _receipt.hash,
+      reverted: _receipt.status !== 1 ? true : undefined,
+      gasUsed: _receipt.gasUsed.toString(10),
+      effectiveGasPrice: _receipt.gasPrice.toString(10),
+      cost: cost.toString(10),
+    });
+    run.totalGasUsed = (BigInt(run.totalGasUsed) + _receipt.gasUsed).toString(10);
+    run.totalCost = (BigInt(run.totalCost) + cost).toString(10);
     this.saveDeploymentInfo();
-    return i;
+  };
+
+  // gas & fees of the current run, over all info files
+  public getLedger = (): DeploymentRunInfo => {
+    const runs = (this.state.runs ?? []).filter(i => i.startedAt === this.runStartedAt);
+    const entries = runs.flatMap(i => i.entries);
+    return {
+      startedAt: this.runStartedAt,
+      deployer: runs[0]?.deployer,
+      entries,
+      totalGasUsed: entries.reduce((t, e) => t + BigInt(e.gasUsed), 0n).toString(10),
+      totalCost: entries.reduce((t, e) => t + BigInt(e.cost), 0n).toString(10),
+    };
+  };
+
+  public printLedger = () => {
+    const ledger = this.getLedger();
+    this.openCategory(`Ledger [${this.chainId}]`);
+    for (const e of ledger.entries) {
+      const reverted = e.reverted ? chalk.red(' reverted') : '';
+      this.log(
+        chalk.blue(
+          `- ${e.kind} [${chalk.white(e.id ?? e.txHash)}]${reverted}: ${chalk.white(e.gasUsed)} gas = ${chalk.white(formatEther(e.cost))} ETH`
+        )
+      );
+    }
+    this.log(
+      chalk.yellow(
+        `- total: ${chalk.white(ledger.totalGasUsed)} gas = ${chalk.white(formatEther(ledger.totalCost))} ETH`
+      )
+    );
+    this.closeCategory();
   };
 
   /////////////////
-  // Send Info
+  // Report
   /////////////////
 
-  private findSend = (_id: string | undefined): ContractSendInfo | null => {
-    if (_id === undefined || _id === '') return null;
-    return this.state.sends.find(i => i.id === _id) ?? null;
+  public getReport = async (_options?: DeploymentReportOptions): Promise<DeploymentReport> => {
+    return createDeploymentReport(this.chainId, this.state, {
+      ..._options,
+      explorerUrl: _options?.explorerUrl ?? (await this.getExplorerUrl()),
+    });
   };
 
-  private setSendHash = (_id: string, _txHash: string, _retry: boolean) => {
-    let i = this.findSend(_id);
-    if (i === null) {
-      i = {
-        id: _id,
-        txHash: _txHash,
-        success: false,
-        alternativeInfoFileID: this.alternativeInfoFileID,
-      };
-      this.state.sends.push(i);
-    } else if (_retry) i.txHash = _txHash; // set new tx hash
-    this.saveDeploymentInfo();
-    return i;
+  // markdown & html, by default next to the state file (report.md / report.html)
+  public saveReport = async (_options?: DeploymentReportOptions, _file?: string) => {
+    const report = await this.getReport(_options);
+    const markdown = renderMarkdownReport(report);
+    const html = renderHtmlReport(report);
+    if (_file === undefined) {
+      this.storage.write(this.chainId, 'report.md', markdown);
+      this.storage.write(this.chainId, 'report.html', html);
+      return;
+    }
+    fs.mkdirSync(path.dirname(_file), { recursive: true });
+    fs.writeFileSync(`${_file}.md`, markdown);
+    fs.writeFileSync(`${_file}.html`, html);
   };
 
-  private setSendSuccess = (_id: string) => {
-    let i = this.findSend(_id);
-    if (i !== null) {
-      i.success = true;
-      this.saveDeploymentInfo();
+  private getExplorerUrl = async (): Promise<string | undefined> => {
+    try {
+      return (await this.createEtherscan()).browserUrl;
+    } catch {
+      return undefined; // unknown chain
     }
-    return i;
   };
 
   /////////////////
@@ -435,23 +3255,23 @@ export class DeployHelper {
   public increaseTabLevel = () => (this.level += 1);
   public decreaseTabLevel = () => (this.level -= 1);
 
-  public log = (_message: string) => {
+  public log = (_message: string, _level: DeployLogLevel = DeployLogLevel.Info) => {
     if (this.silent) return;
-
-    // tabs
-    let tabs = '';
-    for (let n = 0; n < this.level; n++) tabs += this.tab;
-
-    // log
-    console.log(`${tabs}${_message}`);
+    this.emit({ type: DeployEventType.Log, level: _level, message: _message, depth: this.level });
   };
 
   public warn = (_message: string) => {
-    this.log(chalk.yellow(_message));
+    this.log(chalk.yellow(_message), DeployLogLevel.Warn);
   };
 
   public error = (_message: string) => {
-    this.log(chalk.red(_message));
+    this.log(chalk.red(_message), DeployLogLevel.Error);
+  };
+
+  // forwards to all sinks
+  public emit = (_event: DeployEventPayload) => {
+    const event = { ..._event, chainId: this.chainId, timestamp: Date.now() } as DeployEvent;
+    for (const s of this.sinks) s.handle(event);
   };
 
   public openCategory = (_title: string, _levels: number = 0) => {
@@ -474,6 +3294,25 @@ export class DeployHelper {
     this.decreaseTabLevel();
   };
 
+  /////////////////
+  // Serialize Events
+  /////////////////
+
+  // plain values for the state: named (or indexed) args, numbers as decimal strings
+  private serializeEventArgs = (_args: Result | any[], _params: readonly ParamType[]): Record<string, any> => {
+    const args: Record<string, any> = {};
+    _params.forEach((p, n) => (args[p.name !== '' ? p.name : `${n}`] = this.serializeEventValue(_args[n], p)));
+    return args;
+  };
+
+  private serializeEventValue = (_value: any, _param: ParamType): any => {
+    if (_value instanceof Indexed) return _value.hash; // indexed dynamic types are only hashes
+    if (typeof _value === 'bigint') return _value.toString(10);
+    if (_param.isArray()) return [..._value].map(v => this.serializeEventValue(v, _param.arrayChildren));
+    if (_param.isTuple()) return this.serializeEventArgs(_value, _param.components);
+    return _value;
+  };
+
   /////////////////
   // Serialize / Deserialize Calls
   /////////////////
@@ -601,9 +3440,46 @@ export class DeployHelper {
       deployments: [],
       calls: [],
       sends: [],
+      proxies: [],
     };
   };
 
+  // removes ids (or prefixes ending with *) of the current state file, the previous version is kept as backup
+  public prune = (_selectors: string[], _options?: Omit<PruneOptions, 'infoFileID'>): PruneEntry[] => {
+    const own = <T extends { alternativeInfoFileID?: string }>(i: T) =>
+      i.alternativeInfoFileID === this.alternativeInfoFileID;
+    const { removed } = pruneState(
+      {
+        deployments: this.state.deployments.filter(own),
+        calls: this.state.calls.filter(own),
+        sends: this.state.sends.filter(own),
+        proxies: this.state.proxies.filter(own),
+      },
+      _selectors,
+      _options?.cascade
+    );
+
+    // preview
+    this.openCategory(`${_options?.preview ? 'Prune preview' : 'Prune'} [${removed.length}]`);
+    for (const r of removed) this.log(chalk.blue(`- ${describePruneEntry(r)}`));
+    this.closeCategory();
+    if (_options?.preview || removed.length === 0 || this.dryRun) return removed;
+
+    // backup & remove
+    const file = this.generateInfoFileName();
+    const data = this.storage.read(this.chainId, file);
+    if (data !== null)
+      this.storage.write(this.chainId, generatePruneBackupFileName(this.alternativeInfoFileID ?? 'info'), data);
+    const isRemoved = (_kind: PruneEntryKind, _item: { id: string; alternativeInfoFileID?: string }) =>
+      own(_item) && removed.some(r => r.kind === _kind && r.id === _item.id);
+    this.state.deployments = this.state.deployments.filter(i => !isRemoved(PruneEntryKind.Deployment, i));
+    this.state.calls = this.state.calls.filter(i => !isRemoved(PruneEntryKind.Call, i));
+    this.state.sends = this.state.sends.filter(i => !isRemoved(PruneEntryKind.Send, i));
+    this.state.proxies = this.state.proxies.filter(i => !isRemoved(PruneEntryKind.Proxy, i));
+    this.saveDeploymentInfo();
+    return removed;
+  };
+
   public loadDeploymentInfo = (_merge: boolean = false) => {
     if (!_merge) {
       this.resetDeploymentInfo();
@@ -611,43 +3487,65 @@ export class DeployHelper {
     }
 
     // info
+    const j = loadDeploymentState(this.storage, this.chainId, this.alternativeInfoFileID ?? 'info');
+    if (j === null) return; // nothing deployed yet
+
+    // set state
+    if (_merge) {
+      // merge & add alternativeInfoFileID to all items
+      this.state.deployments = [
+        ...this.state.deployments,
+        ...j.deployments.map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
+      ];
+      this.state.calls = [
+        ...this.state.calls,
+        ...j.calls.map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
+      ];
+      this.state.sends = [
+        ...this.state.sends,
+        ...j.sends.map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
+      ];
+      this.state.proxies = [
+        ...this.state.proxies,
+        ...j.proxies.map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
+      ];
+      this.state.runs = [
+        ...(this.state.runs ?? []),
+        ...(j.runs ?? []).map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
+      ];
+    } else {
+      this.state = j;
+    }
+  };
+
+  private loadStorageLayout = (_implementationId: string): StorageLayout | null => {
     try {
-      const data = fs.readFileSync(this.generateInfoFileName());
-      const j = JSON.parse(data.toString());
-      if (j !== undefined && j.calls !== undefined && j.sends !== undefined && j.deployments !== undefined) {
-        // set state
-        if (_merge) {
-          // merge & add alternativeInfoFileID to all items
-          this.state.deployments = [
-            ...this.state.deployments,
-            ...(j.deployments as ContractDeploymentInfo[]).map(i => ({
-              ...i,
-              alternativeInfoFileID: this.alternativeInfoFileID,
-            })),
-          ];
-          this.state.calls = [
-            ...this.state.calls,
-            ...(j.calls as ContractCallInfo[]).map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
-          ];
-          this.state.sends = [
-            ...this.state.sends,
-            ...(j.sends as ContractSendInfo[]).map(i => ({ ...i, alternativeInfoFileID: this.alternativeInfoFileID })),
-          ];
-        } else {
-          this.state = j;
-        }
-      }
-    } catch {}
+      const data = this.storage.read(this.chainId, this.generateStorageLayoutFileName(_implementationId));
+      return data === null ? null : JSON.parse(data);
+    } catch {
+      return null;
+    }
+  };
+
+  private saveStorageLayout = (_implementationId: string, _layout: StorageLayout) => {
+    if (this.dryRun) return;
+    this.storage.write(
+      this.chainId,
+      this.generateStorageLayoutFileName(_implementationId),
+      JSON.stringify(_layout, null, 2)
+    );
   };
 
   public saveDeploymentInfo = () => {
-    fs.mkdirSync(this.generateSaveFilePath(), { recursive: true });
+    if (this.dryRun) return;
 
     // write info file but only for current infoFile & remove alternativeInfoFileID
-    fs.writeFileSync(
+    this.storage.write(
+      this.chainId,
       this.generateInfoFileName(),
       JSON.stringify(
         {
+          version: DEPLOYMENT_STATE_VERSION,
           deployments:
             this.state.deployments
               ?.filter(i => i.alternativeInfoFileID === this.alternativeInfoFileID)
@@ -660,6 +3558,14 @@ export class DeployHelper {
             this.state.sends
               ?.filter(i => i.alternativeInfoFileID === this.alternativeInfoFileID)
               .map(i => ({ ...i, alternativeInfoFileID: undefined })) ?? [],
+          proxies:
+            this.state.proxies
+              ?.filter(i => i.alternativeInfoFileID === this.alternativeInfoFileID)
+              .map(i => ({ ...i, alternativeInfoFileID: undefined })) ?? [],
+          runs:
+            this.state.runs
+              ?.filter(i => i.alternativeInfoFileID === this.alternativeInfoFileID)
+              .map(i => ({ ...i, alternativeInfoFileID: undefined })) ?? [],
         },
         null,
         2
@@ -667,18 +3573,26 @@ export class DeployHelper {
     );
 
     // override deploy log
-    fs.writeFileSync(this.generateDeployFileName(), JSON.stringify(this.deployedLog, null, 2));
-  };
-
-  private generateSaveFilePath = () => {
-    return `./deploy/deployments/${this.chainId}`;
+    this.storage.write(this.chainId, this.generateDeployFileName(), JSON.stringify(this.deployedLog, null, 2));
   };
 
   private generateInfoFileName = () => {
-    return `${this.generateSaveFilePath()}/${this.alternativeInfoFileID ?? 'info'}.json`;
+    return `${this.alternativeInfoFileID ?? 'info'}.json`;
   };
 
   private generateDeployFileName = () => {
-    return `${this.generateSaveFilePath()}/deployed.json`;
+    return 'deployed.json';
+  };
+
+  private generateSafeBatchFileName = () => {
+    return 'safe-batch.json';
+  };
+
+  private generateOfflineBatchFileName = () => {
+    return 'offline-unsigned.json';
+  };
+
+  private generateStorageLayoutFileName = (_implementationId: string) => {
+    return `layouts/${_implementationId.replace(/[^\w.@-]/g, '_')}.json`;
   };
 }
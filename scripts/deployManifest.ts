@@ -0,0 +1,317 @@
+import chalk from 'chalk';
+
+import { BaseContract, Interface } from 'ethers';
+import hre from 'hardhat';
+import '@nomicfoundation/hardhat-ethers';
+
+import { loadJsonOrYaml } from './cmdUtils';
+import type { DeployHelper } from './deployHelpers';
+
+export interface DeployManifestContract {
+  contract: string; // artifact name
+  args?: any[];
+  libraries?: Record<string, string>; // library name => deployment id, defaults to the library name
+  log?: string;
+}
+
+export interface DeployManifestCall {
+  target: string; // contract id (of the manifest or the state)
+  method: string; // name or signature
+  args?: any[];
+  log?: string;
+}
+
+export interface DeployManifestSend {
+  target: string; // contract id (of the manifest or the state)
+  method: string; // name or signature
+  args?: any[];
+  value?: string; // wei
+  after?: string[]; // ids that have to be executed before (references are dependencies anyway)
+  log?: string;
+}
+
+// args & values can hold references: ${<contract id>} (address), ${<call id>} (result), ${config.<key>}, ${deployer}
+export interface DeployManifest {
+  config?: Record<string, Record<string, any>>; // 'default' & values per chain id
+  contracts?: Record<string, DeployManifestContract>;
+  calls?: Record<string, DeployManifestCall>;
+  sends?: Record<string, DeployManifestSend>;
+}
+
+export enum DeployManifestStepType {
+  Deploy = 'deploy',
+  Call = 'call',
+  Send = 'send',
+}
+
+export interface DeployManifestStep {
+  type: DeployManifestStepType;
+  id: string;
+  log: string;
+  dependencies: string[];
+}
+
+export interface DeployManifestPlan {
+  steps: DeployManifestStep[]; // in execution order
+  errors: string[];
+}
+
+const REFERENCE_PATTERN = /\$\{([^}]+)\}/g;
+
+/////////////////
+// Load
+/////////////////
+
+// .json or .yaml / .yml (needs js-yaml)
+export const loadDeployManifest = (_file: string): DeployManifest => {
+  return loadJsonOrYaml<DeployManifest>(_file, 'manifests');
+};
+
+/////////////////
+// Plan
+/////////////////
+
+// validates all ids, references, contracts & methods and orders the steps by their dependencies
+export const planDeployManifest = async (
+  _deploy: DeployHelper,
+  _manifest: DeployManifest
+): Promise<DeployManifestPlan> => {
+  const errors: string[] = [];
+  const config = getManifestConfig(_manifest, _deploy.chainId);
+  const contracts = _manifest.contracts ?? {};
+  const calls = _manifest.calls ?? {};
+  const sends = _manifest.sends ?? {};
+  const existing = new Map(_deploy.getDeployments().map(d => [d.id, d.contractName]));
+
+  // ids
+  const steps: DeployManifestStep[] = [];
+  const kinds = new Map<string, DeployManifestStepType>();
+  const add = (_type: DeployManifestStepType, _id: string, _log: string) => {
+    if (kinds.has(_id)) errors.push(`Duplicate id [${_id}]`);
+    kinds.set(_id, _type);
+    steps.push({ type: _type, id: _id, log: _log, dependencies: [] });
+  };
+  for (const [id, c] of Object.entries(contracts)) add(DeployManifestStepType.Deploy, id, c.log ?? c.contract);
+  for (const [id, c] of Object.entries(calls)) add(DeployManifestStepType.Call, id, c.log ?? `${c.target}.${c.method}`);
+  for (const [id, s] of Object.entries(sends)) add(DeployManifestStepType.Send, id, s.log ?? `${s.target}.${s.method}`);
+
+  // references
+  const checkReferences = (_step: DeployManifestStep, _value: any) => {
+    for (const ref of findReferences(_value)) {
+      if (ref === 'deployer') continue;
+      if (ref.startsWith('config.')) {
+        if (!(ref.slice('config.'.length) in config))
+          errors.push(`Unresolved reference [${ref}] in [${_step.id}]: not configured for chain ${_deploy.chainId}`);
+        continue;
+      }
+      const kind = kinds.get(ref);
+      if (kind === DeployManifestStepType.Send)
+        errors.push(`Invalid reference [${ref}] in [${_step.id}]: sends have no value`);
+      else if (kind !== undefined) _step.dependencies.push(ref);
+      else if (!existing.has(ref)) errors.push(`Unresolved reference [${ref}] in [${_step.id}]`);
+    }
+  };
+  const checkTarget = (_step: DeployManifestStep, _target: string) => {
+    if (kinds.get(_target) === DeployManifestStepType.Deploy) _step.dependencies.push(_target);
+    else if (!existing.has(_target)) errors.push(`Unknown target [${_target}] in [${_step.id}]`);
+  };
+
+  // contracts, methods & arg count
+  for (const step of steps) {
+    switch (step.type) {
+      case DeployManifestStepType.Deploy: {
+        const c = contracts[step.id];
+        checkReferences(step, c.args);
+
+        // libraries of the manifest first, missing ones are deployed when linking
+        for (const l of Object.values(c.libraries ?? {})) if (l in contracts) step.dependencies.push(l);
+        const iface = await readInterface(c.contract);
+        if (iface === null) errors.push(`Unknown contract [${c.contract}] in [${step.id}]`);
+        else if (iface.deploy.inputs.length !== (c.args ?? []).length)
+          errors.push(`Invalid arg count in [${step.id}]: expected ${iface.deploy.inputs.length}`);
+        break;
+      }
+
+      case DeployManifestStepType.Call:
+      case DeployManifestStepType.Send: {
+        const c = step.type === DeployManifestStepType.Call ? calls[step.id] : sends[step.id];
+        checkTarget(step, c.target);
+        checkReferences(step, c.args);
+        if (step.type === DeployManifestStepType.Send) {
+          const s = sends[step.id];
+          checkReferences(step, s.value);
+          for (const a of s.after ?? []) {
+            if (kinds.has(a)) step.dependencies.push(a);
+            else errors.push(`Unknown id [${a}] in after of [${step.id}]`);
+          }
+        }
+        const name = contracts[c.target]?.contract ?? existing.get(c.target);
+        const iface = name !== undefined ? await readInterface(name) : null;
+        if (iface === null) {
+          // unknown contracts of the manifest are reported by their deploy step
+          if (!(c.target in contracts) && existing.has(c.target))
+            errors.push(`Unknown contract [${name ?? '?'}] of target [${c.target}] in [${step.id}]`);
+          continue;
+        }
+        let fragment;
+        try {
+          fragment = iface.getFunction(c.method);
+        } catch {
+          errors.push(`Ambiguous method [${c.method}] in [${step.id}], use the signature`);
+          continue;
+        }
+        if (fragment === null) errors.push(`Unknown method [${c.method}] in [${step.id}]`);
+        else if (fragment.inputs.length !== (c.args ?? []).length)
+          errors.push(`Invalid arg count in [${step.id}]: expected ${fragment.inputs.length}`);
+        break;
+      }
+    }
+  }
+
+  // order by dependencies, otherwise keep manifest order
+  const ordered: DeployManifestStep[] = [];
+  const done = new Set<string>();
+  let pending = steps;
+  while (pending.length > 0) {
+    const ready = pending.filter(s => s.dependencies.every(d => done.has(d)));
+    if (ready.length === 0) {
+      errors.push(`Circular dependency between [${pending.map(s => s.id).join(', ')}]`);
+      break;
+    }
+    ordered.push(ready[0]);
+    done.add(ready[0].id);
+    pending = pending.filter(s => s !== ready[0]);
+  }
+
+  return { steps: ordered, errors };
+};
+
+/////////////////
+// Run
+/////////////////
+
+// nothing is broadcasted, if the manifest is invalid
+export const runDeployManifest = async (
+  _deploy: DeployHelper,
+  _manifest: DeployManifest | string
+): Promise<boolean> => {
+  const manifest = typeof _manifest === 'string' ? loadDeployManifest(_manifest) : _manifest;
+  const plan = await planDeployManifest(_deploy, manifest);
+  if (plan.errors.length > 0) {
+    for (const e of plan.errors) _deploy.error(`- ${e}`);
+    throw new Error(`Invalid deploy manifest (${plan.errors.length} errors)`);
+  }
+
+  // resolved values
+  const config = getManifestConfig(manifest, _deploy.chainId);
+  const deployer = await _deploy.getDeployerAddress();
+  const instances = new Map<string, BaseContract>();
+  const values = new Map<string, any>();
+  const resolveReference = async (_ref: string) => {
+    if (_ref === 'deployer') return deployer;
+    if (_ref.startsWith('config.')) return config[_ref.slice('config.'.length)];
+    if (values.has(_ref)) return values.get(_ref);
+    return await (await getInstance(_ref)).getAddress(); // deployed by an earlier script
+  };
+  const resolve = async (_value: any): Promise<any> => {
+    if (Array.isArray(_value)) return await Promise.all(_value.map(resolve));
+    if (_value !== null && typeof _value === 'object') {
+      const obj: Record<string, any> = {};
+      for (const [k, v] of Object.entries(_value)) obj[k] = await resolve(v);
+      return obj;
+    }
+    if (typeof _value !== 'string') return _value;
+
+    // whole value keeps its type, otherwise interpolated
+    const single = /^\$\{([^}]+)\}$/.exec(_value);
+    if (single !== null) return await resolveReference(single[1]);
+    let result = _value;
+    for (const ref of findReferences(_value)) result = result.replace(`\${${ref}}`, `${await resolveReference(ref)}`);
+    return result;
+  };
+  const getInstance = async (_id: string): Promise<BaseContract> => {
+    let c = instances.get(_id);
+    if (c === undefined) {
+      const name = _deploy.getDeployments().find(d => d.id === _id)!.contractName!;
+      c = await _deploy.load<BaseContract>(_id, name);
+      instances.set(_id, c);
+    }
+    return c;
+  };
+
+  // execute
+  _deploy.openCategory(`Manifest [${plan.steps.length} steps]`);
+  try {
+    for (const step of plan.steps) {
+      switch (step.type) {
+        case DeployManifestStepType.Deploy: {
+          const c = manifest.contracts![step.id];
+          const args = await resolve(c.args ?? []);
+          const instance = await _deploy.deployLinked<BaseContract>(step.id, c.contract, args, c.libraries, step.log);
+          instances.set(step.id, instance);
+          values.set(step.id, await instance.getAddress());
+          break;
+        }
+
+        case DeployManifestStepType.Call: {
+          const c = manifest.calls![step.id];
+          const instance = await getInstance(c.target);
+          const args = await resolve(c.args ?? []);
+          const result = await _deploy.call(
+            step.id,
+            step.log,
+            async () => await instance.getFunction(c.method).staticCall(...args),
+            instance.interface.getFunction(c.method)
+          );
+          values.set(step.id, result);
+          break;
+        }
+
+        case DeployManifestStepType.Send: {
+          const s = manifest.sends![step.id];
+          const instance = await getInstance(s.target);
+          const args = await resolve(s.args ?? []);
+          const value = s.value !== undefined ? BigInt(await resolve(s.value)) : undefined;
+          const overrides = value !== undefined ? [{ value }] : [];
+          if (
+            !(await _deploy.send(
+              step.id,
+              step.log,
+              async () => await instance.getFunction(s.method)(...args, ...overrides)
+            ))
+          ) {
+            _deploy.warn(`- stopped at [${chalk.white(step.id)}]`);
+            return false;
+          }
+          break;
+        }
+      }
+    }
+  } finally {
+    _deploy.closeCategory();
+  }
+  return true;
+};
+
+/////////////////
+// Helpers
+/////////////////
+
+const getManifestConfig = (_manifest: DeployManifest, _chainId: number): Record<string, any> => {
+  return { ...(_manifest.config?.default ?? {}), ...(_manifest.config?.[`${_chainId}`] ?? {}) };
+};
+
+const findReferences = (_value: any): string[] => {
+  if (Array.isArray(_value)) return _value.flatMap(findReferences);
+  if (_value !== null && typeof _value === 'object') return Object.values(_value).flatMap(findReferences);
+  if (typeof _value !== 'string') return [];
+  return [..._value.matchAll(REFERENCE_PATTERN)].map(m => m[1].trim());
+};
+
+const readInterface = async (_name: string): Promise<Interface | null> => {
+  try {
+    return new Interface((await hre.artifacts.readArtifact(_name)).abi);
+  } catch {
+    return null;
+  }
+};
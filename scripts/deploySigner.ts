@@ -0,0 +1,67 @@
+import {
+  AbstractSigner,
+  Provider,
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  TypedDataDomain,
+  TypedDataField,
+} from 'ethers';
+
+export type DeploySignerSend = (_tx: TransactionRequest) => Promise<TransactionResponse>;
+
+// sees every transaction before it is signed, calls next to send it (or throws to stop it)
+export type DeploySignerMiddleware = (_tx: TransactionRequest, _next: DeploySignerSend) => Promise<TransactionResponse>;
+
+// wraps the signer of a DeployHelper, so it can capture, price & number its transactions without touching other signers
+export class DeploySigner extends AbstractSigner {
+  public readonly signer: Signer;
+  private readonly middlewares: DeploySignerMiddleware[];
+
+  constructor(_signer: Signer, _middlewares: DeploySignerMiddleware[]) {
+    super(_signer.provider);
+    this.signer = _signer;
+    this.middlewares = _middlewares; // shared with the helper, which adds & removes them
+  }
+
+  connect(_provider: Provider | null): DeploySigner {
+    return new DeploySigner(this.signer.connect(_provider), this.middlewares);
+  }
+
+  async getAddress(): Promise<string> {
+    return await this.signer.getAddress();
+  }
+
+  async signTransaction(_tx: TransactionRequest): Promise<string> {
+    return await this.signer.signTransaction(_tx);
+  }
+
+  async signMessage(_message: string | Uint8Array): Promise<string> {
+    return await this.signer.signMessage(_message);
+  }
+
+  async signTypedData(
+    _domain: TypedDataDomain,
+    _types: Record<string, TypedDataField[]>,
+    _value: Record<string, any>
+  ): Promise<string> {
+    return await this.signer.signTypedData(_domain, _types, _value);
+  }
+
+  async sendTransaction(_tx: TransactionRequest): Promise<TransactionResponse> {
+    const send = this.middlewares.reduceRight<DeploySignerSend>(
+      (_next, _middleware) => async _t => await _middleware(_t, _next),
+      async _t => await this.signer.sendTransaction(_t)
+    );
+    return await send(_tx);
+  }
+}
+
+// send callbacks either send a transaction or return it unsent (e.g. populateTransaction)
+export const isTransactionResponse = (_value: any): _value is TransactionResponse => {
+  return typeof _value?.hash === 'string' && typeof _value?.wait === 'function';
+};
+
+export const isTransactionRequest = (_value: any): _value is TransactionRequest => {
+  return !isTransactionResponse(_value) && typeof _value === 'object' && _value !== null && 'to' in _value;
+};
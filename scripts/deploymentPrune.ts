@@ -0,0 +1,196 @@
+import chalk from 'chalk';
+
+import { getArg } from './cmdUtils';
+import {
+  ContractDeploymentState,
+  DEPLOYMENT_STATE_VERSION,
+  DeploymentStorage,
+  FileDeploymentStorage,
+  loadDeploymentState,
+} from './deploymentStorage';
+
+export interface PruneOptions {
+  cascade?: boolean; // also remove entries that referenced removed deployments
+  preview?: boolean; // only list the entries, nothing is changed
+  infoFileID?: string; // default: info
+}
+
+export enum PruneEntryKind {
+  Deployment = 'deployment',
+  Call = 'call',
+  Send = 'send',
+  Proxy = 'proxy',
+}
+
+export interface PruneEntry {
+  kind: PruneEntryKind;
+  id: string;
+  reason?: string; // id that caused the removal (cascade)
+}
+
+/////////////////
+// Prune
+/////////////////
+
+// selectors are ids or prefixes ending with * (e.g. token*)
+export const matchesPruneSelector = (_id: string, _selectors: string[]) => {
+  return _selectors.some(s => (s.endsWith('*') ? _id.startsWith(s.slice(0, -1)) : _id === s));
+};
+
+// returns the state without the selected entries (& with cascade, all entries that referenced them)
+export const pruneState = (
+  _state: ContractDeploymentState,
+  _selectors: string[],
+  _cascade: boolean = false
+): { state: ContractDeploymentState; removed: PruneEntry[] } => {
+  const removed: PruneEntry[] = [];
+  const isRemoved = (_kind: PruneEntryKind, _id: string) => removed.some(r => r.kind === _kind && r.id === _id);
+  const remove = (_kind: PruneEntryKind, _id: string, _reason?: string) => {
+    if (!isRemoved(_kind, _id)) removed.push({ kind: _kind, id: _id, reason: _reason });
+  };
+
+  // selected
+  for (const d of _state.deployments)
+    if (matchesPruneSelector(d.id, _selectors)) remove(PruneEntryKind.Deployment, d.id);
+  for (const c of _state.calls) if (matchesPruneSelector(c.id, _selectors)) remove(PruneEntryKind.Call, c.id);
+  for (const s of _state.sends) if (matchesPruneSelector(s.id, _selectors)) remove(PruneEntryKind.Send, s.id);
+
+  // proxies share the id of their deployment
+  for (const p of _state.proxies) if (isRemoved(PruneEntryKind.Deployment, p.id)) remove(PruneEntryKind.Proxy, p.id);
+
+  // cascade until nothing changes
+  if (_cascade) {
+    let count = -1;
+    while (count !== removed.length) {
+      count = removed.length;
+
+      // implementations & upgrades of removed proxies
+      for (const p of _state.proxies.filter(p => isRemoved(PruneEntryKind.Proxy, p.id))) {
+        for (const i of p.implementations) {
+          remove(PruneEntryKind.Deployment, i.deploymentId, p.id);
+          if (i.upgradeSendId !== undefined) remove(PruneEntryKind.Send, i.upgradeSendId, p.id);
+        }
+      }
+
+      // entries whose inputs (constructor args, calldata, target) contain a removed address
+      const addresses = _state.deployments
+        .filter(d => d.address !== undefined && isRemoved(PruneEntryKind.Deployment, d.id))
+        .map(d => ({ id: d.id, hex: d.address!.toLowerCase().replace(/^0x/, '') }));
+      const findReference = (_values: (string | undefined)[]) =>
+        addresses.find(a => _values.some(v => v?.toLowerCase().includes(a.hex)))?.id;
+      for (const d of _state.deployments) {
+        const ref = findReference([...Object.values(d.fingerprint ?? {}), d.verification?.constructorArgs]);
+        if (ref !== undefined) remove(PruneEntryKind.Deployment, d.id, ref);
+      }
+      for (const c of _state.calls) {
+        const ref = findReference(Object.values(c.fingerprint ?? {}));
+        if (ref !== undefined) remove(PruneEntryKind.Call, c.id, ref);
+      }
+      for (const s of _state.sends) {
+        const ref = findReference([...Object.values(s.fingerprint ?? {}), ...Object.values(s.safeTransaction ?? {})]);
+        if (ref !== undefined) remove(PruneEntryKind.Send, s.id, ref);
+      }
+      for (const p of _state.proxies)
+        if (isRemoved(PruneEntryKind.Deployment, p.id)) remove(PruneEntryKind.Proxy, p.id);
+    }
+  }
+
+  return {
+    state: {
+      deployments: _state.deployments.filter(d => !isRemoved(PruneEntryKind.Deployment, d.id)),
+      calls: _state.calls.filter(c => !isRemoved(PruneEntryKind.Call, c.id)),
+      sends: _state.sends.filter(s => !isRemoved(PruneEntryKind.Send, s.id)),
+      proxies: _state.proxies.filter(p => !isRemoved(PruneEntryKind.Proxy, p.id)),
+      runs: _state.runs, // paid anyway
+    },
+    removed,
+  };
+};
+
+// prunes a state file of any storage, the previous version is kept as <info file>.prune-<time>.json
+export const pruneDeploymentState = (
+  _storage: DeploymentStorage,
+  _chainId: number,
+  _selectors: string[],
+  _options?: PruneOptions
+): PruneEntry[] => {
+  const infoFileID = _options?.infoFileID ?? 'info';
+  const file = `${infoFileID}.json`;
+  _storage.lock?.(_chainId, file);
+  try {
+    const state = loadDeploymentState(_storage, _chainId, infoFileID);
+    if (state === null) return [];
+    const { state: pruned, removed } = pruneState(state, _selectors, _options?.cascade);
+    if (_options?.preview || removed.length === 0) return removed;
+
+    // backup & write
+    _storage.write(_chainId, generatePruneBackupFileName(infoFileID), _storage.read(_chainId, file)!);
+    _storage.write(_chainId, file, JSON.stringify({ version: DEPLOYMENT_STATE_VERSION, ...pruned }, null, 2));
+    return removed;
+  } finally {
+    _storage.unlock?.(_chainId, file);
+  }
+};
+
+export const generatePruneBackupFileName = (_infoFileID: string) => {
+  return `${_infoFileID}.prune-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+};
+
+export const describePruneEntry = (_entry: PruneEntry) => {
+  return `${_entry.kind} [${_entry.id}]${_entry.reason !== undefined ? ` (references [${_entry.reason}])` : ''}`;
+};
+
+/////////////////
+// Command
+/////////////////
+
+export interface PruneArgs {
+  contracts: string | null | undefined;
+  chainId: string | null | undefined;
+  ids: string | null | undefined;
+  infoFile: string | null | undefined;
+  cascade: string | null | undefined;
+  apply: string | null | undefined;
+}
+
+const getArgs = (_args: string[]): PruneArgs => {
+  return {
+    contracts: getArg(_args, '--contracts'),
+    chainId: getArg(_args, '--chainId'),
+    ids: getArg(_args, '--ids'),
+    infoFile: getArg(_args, '--infoFile'),
+    cascade: getArg(_args, '--cascade'),
+    apply: getArg(_args, '--apply'),
+  };
+};
+
+// previews by default, --apply:true removes the entries
+export const pruneDeployment = () => {
+  const args = getArgs(process.argv.slice(2));
+
+  // check args
+  if (!args.chainId) {
+    console.log(chalk.red('ERROR: Missing --chainId'));
+    process.exit(1);
+  }
+  if (!args.ids) {
+    console.log(chalk.red('ERROR: Missing --ids'));
+    process.exit(1);
+  }
+
+  // prune
+  const apply = args.apply === 'true';
+  const storage = new FileDeploymentStorage(`${args.contracts ?? '.'}/deploy/deployments`);
+  const removed = pruneDeploymentState(storage, parseInt(args.chainId!), args.ids!.split(','), {
+    cascade: args.cascade === 'true',
+    preview: !apply,
+    infoFileID: args.infoFile ?? undefined,
+  });
+
+  // log
+  console.log(chalk.yellow(`- ${apply ? 'Removed' : 'Would remove'} [${chalk.white(removed.length)}] entries`));
+  for (const r of removed) console.log(chalk.blue(`  - ${describePruneEntry(r)}`));
+  if (!apply && removed.length > 0) console.log(chalk.yellow(`- run again with --apply:true to remove them`));
+
+  process.exit(0);
+};
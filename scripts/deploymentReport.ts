@@ -0,0 +1,428 @@
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import { formatEther } from 'ethers';
+
+import { getArg } from './cmdUtils';
+import {
+  ContractDeploymentState,
+  ContractSendStatus,
+  FileDeploymentStorage,
+  ProxyKind,
+  loadDeploymentState,
+  migrateDeploymentState,
+} from './deploymentStorage';
+
+export interface DeploymentReportOptions {
+  title?: string;
+  explorerUrl?: string; // e.g. https://etherscan.io, for address & tx links
+  previous?: ContractDeploymentState; // state of an earlier run, to list what changed
+}
+
+export interface DeploymentReportContract {
+  id: string;
+  name?: string;
+  address?: string;
+  txHash?: string; // undefined, if code was already deployed at the deterministic address
+  blockNumber?: number;
+  gasUsed?: string;
+  cost?: string; // wei
+  proxy?: ProxyKind;
+}
+
+export interface DeploymentReportCall {
+  id: string;
+  result: string;
+}
+
+export interface DeploymentReportSend {
+  id: string;
+  status: ContractSendStatus;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  cost?: string; // wei
+}
+
+export enum DeploymentReportEntryKind {
+  Contract = 'contract',
+  Call = 'call',
+  Send = 'send',
+}
+
+export enum DeploymentReportChangeType {
+  Added = 'added',
+  Removed = 'removed',
+  Changed = 'changed',
+}
+
+export interface DeploymentReportChange {
+  type: DeploymentReportChangeType;
+  kind: DeploymentReportEntryKind;
+  id: string;
+  before?: string;
+  after?: string;
+}
+
+export interface DeploymentReport {
+  chainId: number;
+  title: string;
+  explorerUrl?: string;
+  contracts: DeploymentReportContract[];
+  calls: DeploymentReportCall[];
+  sends: DeploymentReportSend[];
+  totalGasUsed: string;
+  totalCost: string; // wei
+  changes?: DeploymentReportChange[]; // only with a previous state
+}
+
+/////////////////
+// Report
+/////////////////
+
+// all entries are sorted by id & nothing run specific (like the time of creation) is included, so reports are diffable
+export const createDeploymentReport = (
+  _chainId: number,
+  _state: ContractDeploymentState,
+  _options?: DeploymentReportOptions
+): DeploymentReport => {
+  const contracts: DeploymentReportContract[] = _state.deployments.map(d => ({
+    id: d.id,
+    name: d.contractName,
+    address: d.address,
+    txHash: d.txHash !== '' ? d.txHash : undefined,
+    blockNumber: d.blockNumber,
+    gasUsed: d.gasUsed,
+    cost: getCost(d.gasUsed, d.effectiveGasPrice),
+    proxy: _state.proxies.find(p => p.id === d.id)?.kind,
+  }));
+  const calls: DeploymentReportCall[] = _state.calls.map(c => ({ id: c.id, result: describeResult(c.result) }));
+  const sends: DeploymentReportSend[] = _state.sends.map(s => ({
+    id: s.id,
+    status: s.status,
+    txHash: s.txHash !== '' ? s.txHash : undefined,
+    blockNumber: s.blockNumber,
+    gasUsed: s.gasUsed,
+    cost: getCost(s.gasUsed, s.effectiveGasPrice),
+  }));
+
+  // totals
+  const spent = [...contracts, ...sends];
+  const totalGasUsed = spent.reduce((t, i) => t + BigInt(i.gasUsed ?? 0), 0n);
+  const totalCost = spent.reduce((t, i) => t + BigInt(i.cost ?? 0), 0n);
+
+  return {
+    chainId: _chainId,
+    title: _options?.title ?? `Deployment Report [${_chainId}]`,
+    explorerUrl: _options?.explorerUrl?.replace(/\/+$/, ''),
+    contracts: contracts.sort(byId),
+    calls: calls.sort(byId),
+    sends: sends.sort(byId),
+    totalGasUsed: totalGasUsed.toString(10),
+    totalCost: totalCost.toString(10),
+    changes: _options?.previous !== undefined ? diffDeploymentStates(_options.previous, _state) : undefined,
+  };
+};
+
+export const diffDeploymentStates = (
+  _previous: ContractDeploymentState,
+  _current: ContractDeploymentState
+): DeploymentReportChange[] => {
+  return [
+    ...diffEntries(
+      DeploymentReportEntryKind.Contract,
+      _previous.deployments,
+      _current.deployments,
+      d => d.address ?? `pending ${d.txHash}`
+    ),
+    ...diffEntries(DeploymentReportEntryKind.Call, _previous.calls, _current.calls, c => describeResult(c.result)),
+    ...diffEntries(DeploymentReportEntryKind.Send, _previous.sends, _current.sends, s =>
+      s.txHash !== '' ? `${s.status} ${s.txHash}` : s.status
+    ),
+  ];
+};
+
+/////////////////
+// Render
+/////////////////
+
+export const renderMarkdownReport = (_report: DeploymentReport): string => {
+  const cell = (_value?: string | number) => (_value === undefined ? '-' : `${_value}`.replace(/\|/g, '\\|'));
+  const link = (_value: string | undefined, _type: 'address' | 'tx') => {
+    const url = explorerLink(_report, _value, _type);
+    return url === undefined ? cell(_value) : `[${_value}](${url})`;
+  };
+  const table = (_head: string[], _rows: string[][]) =>
+    _rows.length === 0
+      ? ['_none_']
+      : [
+          `| ${_head.join(' | ')} |`,
+          `|${_head.map(() => ' --- ').join('|')}|`,
+          ..._rows.map(r => `| ${r.join(' | ')} |`),
+        ];
+
+  const lines = [
+    `# ${_report.title}`,
+    '',
+    `- chain: ${_report.chainId}`,
+    `- total gas used: ${_report.totalGasUsed}`,
+    `- total spend: ${formatEther(_report.totalCost)} ETH`,
+  ];
+
+  // changes
+  if (_report.changes !== undefined) {
+    lines.push('', '## Changes', '');
+    lines.push(
+      ...table(
+        ['Change', 'Kind', 'Id', 'Before', 'After'],
+        _report.changes.map(c => [c.type, c.kind, cell(c.id), cell(c.before), cell(c.after)])
+      )
+    );
+  }
+
+  // contracts
+  lines.push('', '## Contracts', '');
+  lines.push(
+    ...table(
+      ['Id', 'Contract', 'Address', 'Deploy Tx', 'Block', 'Gas Used', 'Cost (ETH)'],
+      _report.contracts.map(c => [
+        cell(c.id),
+        cell(describeContract(c)),
+        link(c.address, 'address'),
+        link(c.txHash, 'tx'),
+        cell(c.blockNumber),
+        cell(c.gasUsed),
+        cell(c.cost !== undefined ? formatEther(c.cost) : undefined),
+      ])
+    )
+  );
+
+  // calls
+  lines.push('', '## Calls', '');
+  lines.push(
+    ...table(
+      ['Id', 'Result'],
+      _report.calls.map(c => [cell(c.id), cell(c.result)])
+    )
+  );
+
+  // sends
+  lines.push('', '## Sends', '');
+  lines.push(
+    ...table(
+      ['Id', 'Status', 'Tx', 'Block', 'Gas Used', 'Cost (ETH)'],
+      _report.sends.map(s => [
+        cell(s.id),
+        s.status,
+        link(s.txHash, 'tx'),
+        cell(s.blockNumber),
+        cell(s.gasUsed),
+        cell(s.cost !== undefined ? formatEther(s.cost) : undefined),
+      ])
+    )
+  );
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const renderHtmlReport = (_report: DeploymentReport): string => {
+  const cell = (_value?: string | number) => `<td>${_value === undefined ? '-' : escapeHtml(`${_value}`)}</td>`;
+  const link = (_value: string | undefined, _type: 'address' | 'tx') => {
+    const url = explorerLink(_report, _value, _type);
+    return url === undefined ? cell(_value) : `<td><a href="${escapeHtml(url)}">${escapeHtml(_value!)}</a></td>`;
+  };
+  const table = (_head: string[], _rows: string[][]) =>
+    _rows.length === 0
+      ? ['<p><em>none</em></p>']
+      : [
+          '<table>',
+          `  <tr>${_head.map(h => `<th>${h}</th>`).join('')}</tr>`,
+          ..._rows.map(r => `  <tr>${r.join('')}</tr>`),
+          '</table>',
+        ];
+
+  const lines = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(_report.title)}</title>`,
+    '<style>',
+    'body { font-family: sans-serif; } table { border-collapse: collapse; } th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; font-family: monospace; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(_report.title)}</h1>`,
+    '<ul>',
+    `  <li>chain: ${_report.chainId}</li>`,
+    `  <li>total gas used: ${_report.totalGasUsed}</li>`,
+    `  <li>total spend: ${formatEther(_report.totalCost)} ETH</li>`,
+    '</ul>',
+  ];
+
+  // changes
+  if (_report.changes !== undefined) {
+    lines.push('<h2>Changes</h2>');
+    lines.push(
+      ...table(
+        ['Change', 'Kind', 'Id', 'Before', 'After'],
+        _report.changes.map(c => [cell(c.type), cell(c.kind), cell(c.id), cell(c.before), cell(c.after)])
+      )
+    );
+  }
+
+  // contracts
+  lines.push('<h2>Contracts</h2>');
+  lines.push(
+    ...table(
+      ['Id', 'Contract', 'Address', 'Deploy Tx', 'Block', 'Gas Used', 'Cost (ETH)'],
+      _report.contracts.map(c => [
+        cell(c.id),
+        cell(describeContract(c)),
+        link(c.address, 'address'),
+        link(c.txHash, 'tx'),
+        cell(c.blockNumber),
+        cell(c.gasUsed),
+        cell(c.cost !== undefined ? formatEther(c.cost) : undefined),
+      ])
+    )
+  );
+
+  // calls
+  lines.push('<h2>Calls</h2>');
+  lines.push(
+    ...table(
+      ['Id', 'Result'],
+      _report.calls.map(c => [cell(c.id), cell(c.result)])
+    )
+  );
+
+  // sends
+  lines.push('<h2>Sends</h2>');
+  lines.push(
+    ...table(
+      ['Id', 'Status', 'Tx', 'Block', 'Gas Used', 'Cost (ETH)'],
+      _report.sends.map(s => [
+        cell(s.id),
+        cell(s.status),
+        link(s.txHash, 'tx'),
+        cell(s.blockNumber),
+        cell(s.gasUsed),
+        cell(s.cost !== undefined ? formatEther(s.cost) : undefined),
+      ])
+    )
+  );
+
+  lines.push('</body>', '</html>');
+  return `${lines.join('\n')}\n`;
+};
+
+/////////////////
+// Command
+/////////////////
+
+export interface DeploymentReportArgs {
+  contracts: string | null | undefined;
+  chainId: string | null | undefined;
+  target: string | null | undefined;
+  previous: string | null | undefined;
+  explorer: string | null | undefined;
+  infoFile: string | null | undefined;
+}
+
+const getArgs = (_args: string[]): DeploymentReportArgs => {
+  return {
+    contracts: getArg(_args, '--contracts'),
+    chainId: getArg(_args, '--chainId'),
+    target: getArg(_args, '--target'),
+    previous: getArg(_args, '--previous'),
+    explorer: getArg(_args, '--explorer'),
+    infoFile: getArg(_args, '--infoFile'),
+  };
+};
+
+// writes <target>.md & <target>.html, by default next to the state file
+export const generateDeploymentReport = (_silent: boolean = false) => {
+  const args = getArgs(process.argv.slice(2));
+
+  // check args
+  if (!args.chainId) {
+    console.log(chalk.red('ERROR: Missing --chainId'));
+    process.exit(1);
+  }
+
+  // load
+  const chainId = parseInt(args.chainId!);
+  const root = `${args.contracts ?? '.'}/deploy/deployments`;
+  const infoFileID = args.infoFile ?? 'info';
+  const state = loadDeploymentState(new FileDeploymentStorage(root), chainId, infoFileID);
+  if (state === null) {
+    console.log(chalk.red(`ERROR: No deployment state for chain [${chainId}] in [${root}]`));
+    process.exit(1);
+  }
+  const previous = !args.previous
+    ? undefined
+    : migrateDeploymentState(JSON.parse(fs.readFileSync(args.previous).toString()));
+
+  // render
+  const report = createDeploymentReport(chainId, state!, { explorerUrl: args.explorer ?? undefined, previous });
+  const target = args.target ?? `${root}/${chainId}/report`;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(`${target}.md`, renderMarkdownReport(report));
+  fs.writeFileSync(`${target}.html`, renderHtmlReport(report));
+  if (!_silent) console.log(chalk.blue(`- report saved [${chalk.white(`${target}.md`)}]`));
+
+  process.exit(0);
+};
+
+/////////////////
+// Helpers
+/////////////////
+
+const byId = (_a: { id: string }, _b: { id: string }) => (_a.id < _b.id ? -1 : _a.id > _b.id ? 1 : 0);
+
+const getCost = (_gasUsed?: string, _effectiveGasPrice?: string) =>
+  _gasUsed === undefined || _effectiveGasPrice === undefined
+    ? undefined
+    : (BigInt(_gasUsed) * BigInt(_effectiveGasPrice)).toString(10);
+
+const describeResult = (_result: any) => (typeof _result === 'string' ? _result : JSON.stringify(_result));
+
+const describeContract = (_contract: DeploymentReportContract) => {
+  const name = _contract.name?.split(':').pop();
+  if (_contract.proxy === undefined) return name;
+  return `${name ?? '?'} (${_contract.proxy} proxy)`;
+};
+
+const explorerLink = (_report: DeploymentReport, _value: string | undefined, _type: 'address' | 'tx') =>
+  _report.explorerUrl === undefined || _value === undefined ? undefined : `${_report.explorerUrl}/${_type}/${_value}`;
+
+const escapeHtml = (_value: string) =>
+  _value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const diffEntries = <T extends { id: string }>(
+  _kind: DeploymentReportEntryKind,
+  _previous: T[],
+  _current: T[],
+  _describe: (_entry: T) => string
+): DeploymentReportChange[] => {
+  const ids = [...new Set([..._previous.map(i => i.id), ..._current.map(i => i.id)])].sort();
+  const changes: DeploymentReportChange[] = [];
+  for (const id of ids) {
+    const before = _previous.find(i => i.id === id);
+    const after = _current.find(i => i.id === id);
+    if (before === undefined)
+      changes.push({ type: DeploymentReportChangeType.Added, kind: _kind, id, after: _describe(after!) });
+    else if (after === undefined)
+      changes.push({ type: DeploymentReportChangeType.Removed, kind: _kind, id, before: _describe(before) });
+    else if (_describe(before) !== _describe(after))
+      changes.push({
+        type: DeploymentReportChangeType.Changed,
+        kind: _kind,
+        id,
+        before: _describe(before),
+        after: _describe(after),
+      });
+  }
+  return changes;
+};
@@ -0,0 +1,417 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export enum DeterministicDeployType {
+  Create2 = 'create2',
+  Create3 = 'create3',
+}
+
+export interface DeterministicDeployInfo {
+  type: DeterministicDeployType;
+  factory: string;
+  salt: string;
+  address: string;
+}
+
+export enum VerificationStatus {
+  Unverified = 'unverified',
+  Verified = 'verified',
+  Failed = 'failed',
+}
+
+export interface ContractVerificationInfo {
+  contractName: string; // fully qualified name
+  constructorArgs: string; // abi encoded
+  status: VerificationStatus;
+  message?: string;
+}
+
+export type InputFingerprint = Record<string, string>;
+
+export interface ContractDeploymentInfo {
+  id: string;
+  txHash: string; // empty, if code was already deployed at the deterministic address
+  replacedTxHashes?: string[]; // sped up or cancelled transactions with the same nonce
+  from?: string; // sender & nonce of the transaction, to detect dropped ones
+  nonce?: number;
+  address?: string;
+  contractName?: string;
+  deployer?: string;
+  blockNumber?: number;
+  timestamp?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  bytecodeHash?: string; // hash of runtime bytecode
+  compilerVersion?: string;
+  libraries?: Record<string, string>; // linked addresses by fully qualified library name
+  deterministic?: DeterministicDeployInfo;
+  verification?: ContractVerificationInfo;
+  fingerprint?: InputFingerprint;
+  alternativeInfoFileID?: string;
+}
+
+export interface ContractCallInfo {
+  id: string;
+  result: any;
+  fingerprint?: InputFingerprint;
+  alternativeInfoFileID?: string;
+}
+
+export enum ContractSendStatus {
+  Pending = 'pending', // broadcasted, but not mined yet
+  Executed = 'executed',
+  Failed = 'failed',
+  Proposed = 'proposed', // waiting for execution by Safe
+}
+
+export interface SafeTransactionInfo {
+  to: string;
+  value: string;
+  data: string;
+  nonce?: number; // of the Safe when proposed, earlier executions of the same call don't count
+  safeTxHash?: string; // of the execution
+}
+
+export interface TimelockCallInfo {
+  target: string;
+  value: string;
+  data: string;
+}
+
+export interface TimelockOperationInfo {
+  address: string; // TimelockController
+  operationId: string;
+  calls: TimelockCallInfo[]; // more than one are scheduled as batch
+  predecessor: string;
+  salt: string;
+  delay: string; // in seconds
+  eta: number; // unix timestamp, from when it can be executed
+}
+
+export interface ContractEventInfo {
+  address: string; // emitter
+  name: string;
+  args: Record<string, any>; // by name (or index), numbers as decimal strings
+  logIndex: number;
+}
+
+export interface ContractSendInfo {
+  id: string;
+  txHash: string; // empty, while proposed to Safe
+  replacedTxHashes?: string[]; // sped up or cancelled transactions with the same nonce
+  from?: string; // sender & nonce of the transaction, to detect dropped ones
+  nonce?: number;
+  status: ContractSendStatus;
+  blockNumber?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  events?: ContractEventInfo[]; // selected events of the receipt
+  timelock?: TimelockOperationInfo; // scheduled by this send
+  safeTransaction?: SafeTransactionInfo;
+  fingerprint?: InputFingerprint;
+  alternativeInfoFileID?: string;
+}
+
+export enum ProxyKind {
+  UUPS = 'uups',
+  Transparent = 'transparent',
+}
+
+export interface ContractImplementationInfo {
+  name: string;
+  deploymentId: string;
+  address: string;
+  upgradeSendId?: string; // undefined for the initial implementation
+}
+
+export interface ContractProxyInfo {
+  id: string;
+  kind: ProxyKind;
+  implementations: ContractImplementationInfo[];
+  alternativeInfoFileID?: string;
+}
+
+export enum GasLedgerEntryKind {
+  Deploy = 'deploy',
+  Send = 'send',
+}
+
+export interface GasLedgerEntry {
+  kind: GasLedgerEntryKind;
+  id?: string;
+  txHash: string;
+  reverted?: boolean; // paid as well
+  gasUsed: string;
+  effectiveGasPrice: string;
+  cost: string; // in wei
+}
+
+// gas & fees of all transactions mined during one run
+export interface DeploymentRunInfo {
+  startedAt: number; // unix timestamp in ms
+  deployer?: string;
+  entries: GasLedgerEntry[];
+  totalGasUsed: string;
+  totalCost: string; // in wei
+  alternativeInfoFileID?: string;
+}
+
+export interface ContractDeploymentState {
+  deployments: ContractDeploymentInfo[];
+  calls: ContractCallInfo[];
+  sends: ContractSendInfo[];
+  proxies: ContractProxyInfo[];
+  runs?: DeploymentRunInfo[];
+}
+
+// increase on every breaking change of the state files & add a migration
+export const DEPLOYMENT_STATE_VERSION = 3;
+
+const DEPLOYMENT_STATE_MIGRATIONS: Record<number, (_state: any) => any> = {
+  // 1 => 2: proxies & detailed deployment records (new fields are optional)
+  1: _state => ({ ..._state, proxies: _state.proxies ?? [] }),
+
+  // 2 => 3: send status instead of success flag
+  2: _state => ({
+    ..._state,
+    sends: _state.sends.map(({ success, ...i }: any) => ({
+      ...i,
+      status: success ? ContractSendStatus.Executed : ContractSendStatus.Pending,
+    })),
+  }),
+};
+
+export const migrateDeploymentState = (_state: any): ContractDeploymentState => {
+  if (_state?.deployments === undefined || _state.calls === undefined || _state.sends === undefined)
+    throw new Error('Invalid deployment info');
+
+  // check version
+  let version: number = _state.version ?? 1;
+  if (version > DEPLOYMENT_STATE_VERSION)
+    throw new Error(`Unsupported deployment info version ${version} (supported: ${DEPLOYMENT_STATE_VERSION})`);
+
+  // migrate
+  let state = _state;
+  while (version < DEPLOYMENT_STATE_VERSION) state = DEPLOYMENT_STATE_MIGRATIONS[version++](state);
+
+  const { version: _version, ...migrated } = state;
+  return migrated;
+};
+
+/////////////////
+// Storage
+/////////////////
+
+// all state files of a chain, addressed by a relative file name (e.g. info.json or layouts/<id>.json)
+export interface DeploymentStorage {
+  read: (_chainId: number, _file: string) => string | null;
+  write: (_chainId: number, _file: string, _data: string) => void;
+  location: (_chainId: number, _file: string) => string; // for logs
+  lock?: (_chainId: number, _file: string) => void; // exclusive for the whole run, throws if held by another process
+  unlock?: (_chainId: number, _file: string) => void;
+  chains?: () => number[]; // all chains with state files, for exports across chains
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  since: string;
+}
+
+// lock files held by this process (with count, as several helpers can use the same file)
+const heldLocks = new Map<string, number>();
+let releaseLocksOnExit = false;
+
+// default: ./deploy/deployments/<chainId>/<file>
+export class FileDeploymentStorage implements DeploymentStorage {
+  private root: string;
+  private backups: number;
+  private backedUp = new Set<string>(); // files backed up during this run
+
+  public constructor(_root: string = './deploy/deployments', _backups: number = 3) {
+    this.root = _root;
+    this.backups = _backups;
+  }
+
+  public read = (_chainId: number, _file: string): string | null => {
+    try {
+      return fs.readFileSync(this.location(_chainId, _file)).toString();
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  };
+
+  public write = (_chainId: number, _file: string, _data: string) => {
+    const file = this.location(_chainId, _file);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    // never write a state locked by a running script (e.g. prune during a deployment)
+    const lockFile = `${file}.lock`;
+    if (!heldLocks.has(lockFile) && fs.existsSync(lockFile)) {
+      const o = readLockOwner(lockFile);
+      if (o === null || o.host !== os.hostname() || isProcessAlive(o.pid))
+        throw new Error(describeLockedState(file, lockFile, o));
+    }
+
+    // rolling backup of the versions before each run (<file>.bak1 is the latest)
+    if (this.backups > 0 && !this.backedUp.has(file) && fs.existsSync(file)) {
+      for (let n = this.backups - 1; n > 0; n--)
+        if (fs.existsSync(`${file}.bak${n}`)) fs.renameSync(`${file}.bak${n}`, `${file}.bak${n + 1}`);
+      fs.copyFileSync(file, `${file}.bak1`);
+    }
+    this.backedUp.add(file);
+
+    // write temp file & rename, so a killed process never leaves a partial file
+    const temp = `${file}.tmp${process.pid}`;
+    const fd = fs.openSync(temp, 'w');
+    try {
+      fs.writeSync(fd, _data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temp, file);
+  };
+
+  public lock = (_chainId: number, _file: string) => {
+    const file = `${this.location(_chainId, _file)}.lock`;
+    const held = heldLocks.get(file);
+    if (held !== undefined) {
+      heldLocks.set(file, held + 1);
+      return;
+    }
+
+    // create exclusively
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const owner: LockOwner = { pid: process.pid, host: os.hostname(), since: new Date().toISOString() };
+    for (;;) {
+      try {
+        fs.writeFileSync(file, JSON.stringify(owner), { flag: 'wx' });
+        break;
+      } catch (e: any) {
+        if (e?.code !== 'EEXIST') throw e;
+      }
+
+      // the owner of a stale lock was killed
+      const o = readLockOwner(file);
+      if (o !== null && o.host === owner.host && !isProcessAlive(o.pid)) {
+        fs.rmSync(file, { force: true });
+        continue;
+      }
+      throw new Error(describeLockedState(this.location(_chainId, _file), file, o));
+    }
+    heldLocks.set(file, 1);
+
+    // release on exit
+    if (!releaseLocksOnExit) {
+      releaseLocksOnExit = true;
+      process.once('exit', () => heldLocks.forEach((_count, f) => fs.rmSync(f, { force: true })));
+    }
+  };
+
+  public unlock = (_chainId: number, _file: string) => {
+    const file = `${this.location(_chainId, _file)}.lock`;
+    const held = heldLocks.get(file);
+    if (held === undefined) return;
+    if (held > 1) {
+      heldLocks.set(file, held - 1);
+      return;
+    }
+    heldLocks.delete(file);
+    fs.rmSync(file, { force: true });
+    this.backedUp.clear(); // the next run backs up again
+  };
+
+  public chains = (): number[] => {
+    if (!fs.existsSync(this.root)) return [];
+    return fs
+      .readdirSync(this.root, { withFileTypes: true })
+      .filter(e => e.isDirectory() && /^\d+$/.test(e.name))
+      .map(e => parseInt(e.name))
+      .sort((a, b) => a - b);
+  };
+
+  public location = (_chainId: number, _file: string) => {
+    return `${this.root}/${_chainId}/${_file}`;
+  };
+}
+
+// separate state per environment (e.g. staging & production on the same chain): ./deploy/environments/<environment>/<chainId>/<file>
+export class EnvironmentDeploymentStorage extends FileDeploymentStorage {
+  public readonly environment: string;
+
+  public constructor(_environment: string, _root: string = './deploy/environments', _backups: number = 3) {
+    if (!/^[\w.-]+$/.test(_environment)) throw new Error('Invalid environment');
+    super(`${_root}/${_environment}`, _backups);
+    this.environment = _environment;
+  }
+}
+
+// nothing touches the disk, e.g. for tests
+export class MemoryDeploymentStorage implements DeploymentStorage {
+  private files = new Map<string, string>();
+
+  public read = (_chainId: number, _file: string): string | null => {
+    return this.files.get(this.location(_chainId, _file)) ?? null;
+  };
+
+  public write = (_chainId: number, _file: string, _data: string) => {
+    this.files.set(this.location(_chainId, _file), _data);
+  };
+
+  public chains = (): number[] => {
+    const chains = [...this.files.keys()].map(k => parseInt(k.slice('memory:'.length)));
+    return [...new Set(chains)].sort((a, b) => a - b);
+  };
+
+  public location = (_chainId: number, _file: string) => {
+    return `memory:${_chainId}/${_file}`;
+  };
+}
+
+// contracts folder (state in <folder>/deploy/deployments) or any storage
+export type DeploymentSource = string | DeploymentStorage;
+
+export const resolveDeploymentStorage = (_source: DeploymentSource): DeploymentStorage => {
+  return typeof _source === 'string' ? new FileDeploymentStorage(`${_source}/deploy/deployments`) : _source;
+};
+
+export const loadDeploymentState = (
+  _storage: DeploymentStorage,
+  _chainId: number,
+  _infoFileID: string = 'info'
+): ContractDeploymentState | null => {
+  const data = _storage.read(_chainId, `${_infoFileID}.json`);
+  return data === null ? null : migrateDeploymentState(JSON.parse(data));
+};
+
+/////////////////
+// Helpers
+/////////////////
+
+const readLockOwner = (_file: string): LockOwner | null => {
+  try {
+    return JSON.parse(fs.readFileSync(_file).toString());
+  } catch {
+    return null;
+  }
+};
+
+const describeLockedState = (_file: string, _lockFile: string, _owner: LockOwner | null) => {
+  return (
+    `State [${_file}] is locked by ` +
+    (_owner !== null ? `process ${_owner.pid} on [${_owner.host}] since ${_owner.since}` : 'another process') +
+    `. If no other script is running, delete [${_lockFile}]`
+  );
+};
+
+const isProcessAlive = (_pid: number) => {
+  try {
+    process.kill(_pid, 0);
+    return true;
+  } catch (e: any) {
+    return e?.code === 'EPERM'; // exists, but belongs to another user
+  }
+};
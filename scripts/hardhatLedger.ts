@@ -2,19 +2,19 @@ import chalk from 'chalk';
 
 import { extendEnvironment } from 'hardhat/config';
 import type { HardhatRuntimeEnvironment } from 'hardhat/types';
-import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import type { LedgerSigner } from '@ethers-ext/signer-ledger';
 
 import { generateLedgerDerivationPath, getLedgerSigner } from '../src/HardwareWallets/ledger';
 
 declare module 'hardhat/types/runtime' {
   interface HardhatRuntimeEnvironment {
-    getLedgerSigner: () => Promise<HardhatEthersSigner>;
+    getLedgerSigner: () => Promise<LedgerSigner>;
     // flip this to control behavior per run
     useLedger: boolean;
     useHardwareWalletAccountIndex: number;
 
     // dont touch this
-    useLedger_signer: HardhatEthersSigner | null;
+    useLedger_signer: LedgerSigner | null;
   }
 }
 
@@ -34,14 +34,16 @@ extendEnvironment((hre: HardhatRuntimeEnvironment) => {
 
   hre.getLedgerSigner = async () => {
     try {
-      if (!!hre.useLedger_signer) return hre.useLedger_signer;
+      if (!!hre.useLedger_signer) {
+        // follow network switches (see runOnNetwork of hardhatNetworks)
+        if (hre.useLedger_signer.provider !== hre.ethers.provider)
+          hre.useLedger_signer = hre.useLedger_signer.connect(hre.ethers.provider);
+        return hre.useLedger_signer;
+      }
 
       // create signer
       console.log(chalk.blue('Try to connect to [Ledger]'));
-      hre.useLedger_signer = (await makeLedgerSigner(
-        hre,
-        hre.useHardwareWalletAccountIndex
-      )) as any as HardhatEthersSigner;
+      hre.useLedger_signer = await makeLedgerSigner(hre, hre.useHardwareWalletAccountIndex);
 
       // try to get address
       const addr = await hre.useLedger_signer.getAddress();
@@ -55,18 +57,19 @@ extendEnvironment((hre: HardhatRuntimeEnvironment) => {
   };
 
   // --- Patch ethers.getSigners to return Ledger (index 0) when enabled ---
+  // (the Ledger is a plain ethers Signer, not a HardhatEthersSigner as hardhat-ethers declares)
   const origGetSigners = hre.ethers.getSigners.bind(hre.ethers);
-  hre.ethers.getSigners = async () => {
+  hre.ethers.getSigners = (async () => {
     return !hre.useLedger ? origGetSigners() : [await hre.getLedgerSigner()];
-  };
+  }) as typeof hre.ethers.getSigners;
 
   // --- Patch ethers.getSigner to return Ledger for index 0 when enabled ---
   const origGetSigner = hre.ethers.getSigner.bind(hre.ethers);
-  hre.ethers.getSigner = async (address: string) => {
+  hre.ethers.getSigner = (async (address: string) => {
     if (!hre.useLedger) return origGetSigner(address);
     else if (address === undefined) return hre.getLedgerSigner();
     else return origGetSigner(address);
-  };
+  }) as typeof hre.ethers.getSigner;
 
   // --- Patch ethers.getContractFactory to auto-connect to Ledger when enabled ---
   type GetCF = typeof hre.ethers.getContractFactory;
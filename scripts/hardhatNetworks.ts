@@ -0,0 +1,58 @@
+import hre from 'hardhat';
+import type { EthereumProvider } from 'hardhat/types';
+import '@nomicfoundation/hardhat-ethers';
+
+// internal, not part of the published entries: hardhat 2 only creates the provider of the selected network,
+// so other networks need its unexported factory (tested with hardhat 2.22 - 2.29 & hardhat-ethers 3)
+const SUPPORTED_HARDHAT_VERSION = /^2\.(2[2-9])\./;
+
+interface NetworkProviders {
+  provider: EthereumProvider;
+  ethers: typeof hre.ethers.provider;
+}
+
+// providers of the networks used so far, switching back keeps e.g. the state of the in-process network
+const networkProviders = new Map<string, NetworkProviders>();
+
+// runs the callback with hre.network & hre.ethers on another network of the hardhat config, then switches back
+// (hre is global, so nothing else should use it in the meantime)
+export const runOnNetwork = async <T>(_network: string, _callback: () => Promise<T>): Promise<T> => {
+  const initial = hre.network.name;
+  if (initial === _network) return await _callback();
+  await switchNetwork(_network);
+  try {
+    return await _callback();
+  } finally {
+    await switchNetwork(initial);
+  }
+};
+
+const switchNetwork = async (_network: string) => {
+  const config = hre.config.networks[_network];
+  if (config === undefined) throw new Error(`Unknown network [${_network}]`);
+  networkProviders.set(hre.network.name, { provider: hre.network.provider, ethers: hre.ethers.provider });
+  const providers = networkProviders.get(_network) ?? (await createNetworkProviders(_network));
+
+  // switch (signers of hre.ethers & the Ledger follow the provider)
+  hre.network.name = _network;
+  hre.network.config = config;
+  hre.network.provider = providers.provider;
+  hre.ethers.provider = providers.ethers;
+};
+
+const createNetworkProviders = async (_network: string): Promise<NetworkProviders> => {
+  if (!SUPPORTED_HARDHAT_VERSION.test(hre.version))
+    throw new Error(`Switching networks is not supported by hardhat ${hre.version} (2.22 - 2.29)`);
+  let modules;
+  try {
+    modules = await Promise.all([
+      import('hardhat/internal/core/providers/construction'),
+      import('@nomicfoundation/hardhat-ethers/internal/hardhat-ethers-provider'),
+    ]);
+  } catch {
+    throw new Error(`Switching networks is not supported by hardhat ${hre.version}`);
+  }
+  const [{ createProvider }, { HardhatEthersProvider }] = modules;
+  const provider = await createProvider(hre.config, _network, hre.artifacts);
+  return { provider, ethers: new HardhatEthersProvider(provider, _network) };
+};
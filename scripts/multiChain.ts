@@ -0,0 +1,201 @@
+import chalk from 'chalk';
+
+import { DeployHelper, DeployHelperOptions } from './deployHelpers';
+import { ContractDeploymentInfo } from './deploymentStorage';
+import { runOnNetwork } from './hardhatNetworks';
+
+export interface MultiChainNetwork {
+  network: string; // name in hardhat config
+  options?: DeployHelperOptions; // own wallet provider, storage, sinks, ...
+}
+
+export interface MultiChainOptions {
+  stopOnError?: boolean; // default: continue with the next chain & report the failure
+  matchingIds?: string[]; // expected at the same address on all chains, in addition to deterministic deployments
+  silent?: boolean;
+}
+
+export enum MultiChainRunStatus {
+  Success = 'success',
+  Failed = 'failed',
+  Skipped = 'skipped', // after a failure with stopOnError
+}
+
+export interface MultiChainRunInfo {
+  network: string;
+  chainId?: number;
+  status: MultiChainRunStatus;
+  error?: string;
+  duration: number; // ms
+}
+
+export enum ConsistencyIssueKind {
+  Mismatch = 'mismatch', // different addresses
+  Missing = 'missing', // not deployed on some chains
+}
+
+export interface ConsistencyIssue {
+  id: string;
+  kind: ConsistencyIssueKind;
+  addresses: Record<string, string | null>; // by network
+}
+
+export interface MultiChainResult {
+  runs: MultiChainRunInfo[];
+  issues: ConsistencyIssue[];
+}
+
+export interface MultiChainDeployments {
+  network: string;
+  deployments: ContractDeploymentInfo[];
+}
+
+// flags ids whose addresses were expected to match, but differ across chains
+export const checkConsistency = (_chains: MultiChainDeployments[], _matchingIds: string[] = []): ConsistencyIssue[] => {
+  const expected = new Set(_matchingIds);
+  for (const c of _chains) for (const d of c.deployments) if (d.deterministic !== undefined) expected.add(d.id);
+
+  const issues: ConsistencyIssue[] = [];
+  for (const id of [...expected].sort()) {
+    const addresses: Record<string, string | null> = {};
+    for (const c of _chains) addresses[c.network] = c.deployments.find(d => d.id === id)?.address ?? null;
+    const deployed = Object.values(addresses).filter(a => a !== null) as string[];
+    if (new Set(deployed.map(a => a.toLowerCase())).size > 1)
+      issues.push({ id, kind: ConsistencyIssueKind.Mismatch, addresses });
+    else if (deployed.length > 0 && deployed.length < _chains.length)
+      issues.push({ id, kind: ConsistencyIssueKind.Missing, addresses });
+  }
+  return issues;
+};
+
+export class MultiChainDeployHelper {
+  /////////////////
+  // Attributes
+  /////////////////
+
+  private networks: MultiChainNetwork[];
+  private stopOnError: boolean;
+  private matchingIds: string[];
+  private level: number;
+  private tab: string;
+  public silent: boolean;
+
+  /////////////////
+  // Create
+  /////////////////
+
+  public constructor(_networks: (string | MultiChainNetwork)[], _options?: MultiChainOptions) {
+    this.networks = _networks.map(n => (typeof n === 'string' ? { network: n } : n));
+    this.stopOnError = _options?.stopOnError ?? false;
+    this.matchingIds = _options?.matchingIds ?? [];
+    this.level = 0;
+    this.tab = '  ';
+    this.silent = _options?.silent ?? false;
+  }
+
+  /////////////////
+  // Functions
+  /////////////////
+
+  // runs the deploy function once per network, each with its own DeployHelper & state
+  public run = async (
+    _deploy: (_deploy: DeployHelper, _network: string) => Promise<void>
+  ): Promise<MultiChainResult> => {
+    const runs: MultiChainRunInfo[] = [];
+    const chains: MultiChainDeployments[] = [];
+    this.log(chalk.yellow(`- Multi-chain deployment [${chalk.white(this.networks.length)}] networks`));
+    this.increaseTabLevel();
+
+    try {
+      for (let n = 0; n < this.networks.length; n++) {
+        const { network, options } = this.networks[n];
+
+        // skip after failure
+        if (this.stopOnError && runs.some(r => r.status === MultiChainRunStatus.Failed)) {
+          runs.push({ network, status: MultiChainRunStatus.Skipped, duration: 0 });
+          this.log(chalk.gray(`- [${n + 1}/${this.networks.length}] skipped [${network}]`));
+          continue;
+        }
+
+        // deploy
+        this.log(chalk.yellow(`- [${n + 1}/${this.networks.length}] network [${chalk.white(network)}]`));
+        const start = Date.now();
+        let deploy: DeployHelper | undefined;
+        try {
+          // hre only points to the network during its run
+          const chainId = await runOnNetwork(network, async () => {
+            deploy = new DeployHelper(options);
+            for (let l = 0; l <= this.level; l++) deploy.increaseTabLevel(); // nested under the network
+            await deploy.init();
+            await _deploy(deploy, network);
+            return deploy.chainId;
+          });
+          runs.push({
+            network,
+            chainId,
+            status: MultiChainRunStatus.Success,
+            duration: Date.now() - start,
+          });
+          this.log(chalk.green(`  - done [${chalk.white(chainId)}] in ${formatDuration(Date.now() - start)}`));
+        } catch (e: any) {
+          runs.push({
+            network,
+            chainId: deploy?.chainId,
+            status: MultiChainRunStatus.Failed,
+            error: e?.message ?? `${e}`,
+            duration: Date.now() - start,
+          });
+          this.log(chalk.red(`  - failed [${e?.message ?? e}]`));
+        } finally {
+          if (deploy !== undefined) {
+            chains.push({ network, deployments: deploy.getDeployments() });
+            deploy.release();
+          }
+        }
+      }
+    } finally {
+      this.decreaseTabLevel();
+    }
+
+    // consistency
+    const issues = checkConsistency(chains, this.matchingIds);
+    this.printReport(runs, issues);
+    return { runs, issues };
+  };
+
+  private printReport = (_runs: MultiChainRunInfo[], _issues: ConsistencyIssue[]) => {
+    this.log(chalk.yellow(`- Consistency report`));
+    this.increaseTabLevel();
+    for (const r of _runs) {
+      const color = r.status === MultiChainRunStatus.Success ? chalk.green : chalk.red;
+      this.log(
+        chalk.blue(`- [${chalk.white(r.network)}] ${color(r.status)}${r.error ? chalk.red(` (${r.error})`) : ''}`)
+      );
+    }
+    if (_issues.length === 0) this.log(chalk.green(`- all expected addresses match`));
+    for (const i of _issues) {
+      this.log(chalk.red(`- ${i.kind} [${chalk.white(i.id)}]`));
+      for (const [network, address] of Object.entries(i.addresses))
+        this.log(chalk.red(`  - ${network} => [${chalk.white(address ?? 'not deployed')}]`));
+    }
+    this.decreaseTabLevel();
+  };
+
+  /////////////////
+  // Logs
+  /////////////////
+
+  public increaseTabLevel = () => (this.level += 1);
+  public decreaseTabLevel = () => (this.level -= 1);
+
+  public log = (_message: string) => {
+    if (this.silent) return;
+    console.log(`${this.tab.repeat(Math.max(this.level, 0))}${_message}`);
+  };
+}
+
+/////////////////
+// Helpers
+/////////////////
+
+const formatDuration = (_ms: number) => `${(_ms / 1000).toFixed(1)}s`;
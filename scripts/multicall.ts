@@ -1,5 +1,8 @@
 import { Contract, Interface, InterfaceAbi, ContractRunner, FunctionFragment } from 'ethers';
 
+// same address on most chains, see https://github.com/mds1/multicall
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
 const MULTICALL3_ABI = [
   'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) public returns (tuple(bool success, bytes returnData)[] returnData)',
 ];
@@ -86,7 +89,8 @@ export class Multicall {
 
   public async callWithReference(
     referenceCalls: ICallWithReference[] | ICallWithReference,
-    requireSuccess: boolean = true
+    requireSuccess: boolean = true,
+    batchSize?: number // split into several multicalls of at most batchSize calls
   ): Promise<ICallWithReferenceResult> {
     // flatten references and make map
     const flattenedCalls: (ICall & {
@@ -107,7 +111,10 @@ export class Multicall {
     }
 
     // call
-    const res = await this.call(flattenedCalls, requireSuccess);
+    const size = batchSize ?? Math.max(flattenedCalls.length, 1);
+    const res: { success: boolean; returnData: any }[] = [];
+    for (let n = 0; n < flattenedCalls.length; n += size)
+      res.push(...(await this.call(flattenedCalls.slice(n, n + size), requireSuccess)));
 
     // flatten referenced results
     const flattenedResults: ICallWithReferenceResult = {};
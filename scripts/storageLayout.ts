@@ -0,0 +1,147 @@
+import hre from 'hardhat';
+
+export interface StorageLayoutEntry {
+  astId?: number;
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageLayoutType {
+  encoding: string;
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageLayoutEntry[];
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+export enum StorageLayoutIssueKind {
+  Removed = 'removed',
+  Reordered = 'reordered',
+  Retyped = 'retyped',
+  Gap = 'gap',
+}
+
+export interface StorageLayoutIssue {
+  kind: StorageLayoutIssueKind;
+  label: string;
+  slot: string;
+  message: string;
+}
+
+/////////////////
+// Load
+/////////////////
+
+export const getStorageLayout = async (_name: string): Promise<StorageLayout | null> => {
+  const artifact = await hre.artifacts.readArtifact(_name);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const contracts = buildInfo?.output.contracts[artifact.sourceName];
+  const output = contracts?.[artifact.contractName] as { storageLayout?: StorageLayout } | undefined;
+  return output?.storageLayout ?? null;
+};
+
+/////////////////
+// Compare
+/////////////////
+
+export const compareStorageLayouts = (_old: StorageLayout, _new: StorageLayout): StorageLayoutIssue[] => {
+  const issues: StorageLayoutIssue[] = [];
+  const newByPosition = new Map(_new.storage.map(v => [positionKey(v), v]));
+
+  for (const o of _old.storage) {
+    // gaps may be consumed by new variables, but have to end at the same slot
+    if (isGap(o)) {
+      const n = _new.storage.find(v => v.contract === o.contract && v.label === o.label);
+      const oldEnd = gapEnd(_old, o);
+      const newEnd = n === undefined ? BigInt(o.slot) : gapEnd(_new, n);
+      if (newEnd !== oldEnd)
+        issues.push({
+          kind: StorageLayoutIssueKind.Gap,
+          label: o.label,
+          slot: o.slot,
+          message: `gap [${o.contract}.${o.label}] has to end at slot ${oldEnd}, but ends at slot ${newEnd}`,
+        });
+      continue;
+    }
+
+    // same position
+    const n = newByPosition.get(positionKey(o));
+    if (n === undefined || n.label !== o.label) {
+      const moved = _new.storage.find(v => v.contract === o.contract && v.label === o.label);
+      if (moved !== undefined)
+        issues.push({
+          kind: StorageLayoutIssueKind.Reordered,
+          label: o.label,
+          slot: o.slot,
+          message: `[${o.contract}.${o.label}] moved from slot ${o.slot}/${o.offset} to ${moved.slot}/${moved.offset}`,
+        });
+      else if (n === undefined || isGap(n))
+        issues.push({
+          kind: StorageLayoutIssueKind.Removed,
+          label: o.label,
+          slot: o.slot,
+          message: `[${o.contract}.${o.label}] at slot ${o.slot}/${o.offset} was removed`,
+        });
+      else if (describeType(_old, o.type) !== describeType(_new, n.type))
+        issues.push({
+          kind: StorageLayoutIssueKind.Retyped,
+          label: o.label,
+          slot: o.slot,
+          message: `[${o.contract}.${o.label}] at slot ${o.slot}/${o.offset} was replaced by [${n.contract}.${n.label}] with another type`,
+        });
+      continue;
+    }
+
+    // same variable
+    const oldType = describeType(_old, o.type);
+    const newType = describeType(_new, n.type);
+    if (oldType !== newType)
+      issues.push({
+        kind: StorageLayoutIssueKind.Retyped,
+        label: o.label,
+        slot: o.slot,
+        message: `[${o.contract}.${o.label}] changed type from ${oldType} to ${newType}`,
+      });
+  }
+
+  return issues;
+};
+
+/////////////////
+// Helpers
+/////////////////
+
+const positionKey = (_entry: StorageLayoutEntry) => `${_entry.slot}/${_entry.offset}`;
+
+const isGap = (_entry: StorageLayoutEntry) => _entry.label.startsWith('__gap');
+
+const gapEnd = (_layout: StorageLayout, _entry: StorageLayoutEntry) => {
+  const size = BigInt(_layout.types?.[_entry.type]?.numberOfBytes ?? '32');
+  return BigInt(_entry.slot) + (size + 31n) / 32n;
+};
+
+// type ids contain AST ids (e.g. t_struct(Info)123_storage), which change between compilations
+const describeType = (_layout: StorageLayout, _type: string | undefined): string => {
+  if (_type === undefined) return '';
+  const t = _layout.types?.[_type];
+  if (t === undefined) return _type.replace(/\)\d+/g, ')');
+
+  // nested types
+  const members = t.members?.map(m => `${m.label}:${describeType(_layout, m.type)}@${m.slot}/${m.offset}`);
+  const nested = [t.base, t.key, t.value].filter(i => i !== undefined).map(i => describeType(_layout, i));
+  return (
+    `${t.label}(${t.numberOfBytes})` +
+    (members !== undefined ? `{${members.join(',')}}` : '') +
+    (nested.length > 0 ? `<${nested.join(',')}>` : '')
+  );
+};
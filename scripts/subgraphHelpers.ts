@@ -2,29 +2,14 @@ import chalk from 'chalk';
 import fs from 'fs';
 
 import { getArg } from './cmdUtils';
+import {
+  ContractDeploymentState,
+  DeploymentSource,
+  loadDeploymentState,
+  resolveDeploymentStorage,
+} from './deploymentStorage';
 
-interface ContractDeploymentInfo {
-  id: string;
-  txHash: string;
-  address?: string;
-}
-
-interface ContractCallInfo {
-  id: string;
-  result: any;
-}
-
-interface ContractSendInfo {
-  id: string;
-  txHash: string;
-  success: boolean;
-}
-
-interface ContractDeploymentState {
-  deployments: ContractDeploymentInfo[];
-  calls: ContractCallInfo[];
-  sends: ContractSendInfo[];
-}
+export type SubgraphDeploymentSource = DeploymentSource;
 
 export interface SubgraphArgs {
   contracts: string | string[] | null | undefined;
@@ -107,7 +92,7 @@ export class SubgraphHelper {
   // Attributes
   /////////////////
 
-  private contractsFolder: string | string[];
+  private sources: SubgraphDeploymentSource[];
   private subgraphTemplate: string;
   private subgraphTarget: string;
   private level: number;
@@ -118,8 +103,12 @@ export class SubgraphHelper {
   // Create
   /////////////////
 
-  public constructor(_contractsFolder: string | string[], _subgraphTemplate: string, _subgraphTarget: string) {
-    this.contractsFolder = Array.isArray(_contractsFolder) ? _contractsFolder : [_contractsFolder];
+  public constructor(
+    _contractsFolder: SubgraphDeploymentSource | SubgraphDeploymentSource[],
+    _subgraphTemplate: string,
+    _subgraphTarget: string
+  ) {
+    this.sources = Array.isArray(_contractsFolder) ? _contractsFolder : [_contractsFolder];
     this.subgraphTemplate = _subgraphTemplate;
     this.subgraphTarget = _subgraphTarget;
     this.level = 0;
@@ -147,25 +136,31 @@ export class SubgraphHelper {
     this.log(chalk.blue(`  - loaded [${chalk.white('Subgraph Template')}]`));
 
     // open deployment
-    let deploymentData: ContractDeploymentState = { deployments: [], calls: [], sends: [] };
+    let deploymentData: ContractDeploymentState = { deployments: [], calls: [], sends: [], proxies: [] };
     this.log(chalk.blue(`- loading [${chalk.white('Deployment Info')}]`));
-    for (const contractsFolder of this.contractsFolder) {
-      this.log(chalk.blue(`   - loading [${chalk.white(contractsFolder)}]`));
-      const deploymentFile = `${contractsFolder}/deploy/deployments/${_chainId}/info.json`;
+    for (const source of this.sources) {
+      const storage = resolveDeploymentStorage(source);
+      const deploymentFile = storage.location(_chainId, 'info.json');
+      this.log(chalk.blue(`   - loading [${chalk.white(typeof source === 'string' ? source : deploymentFile)}]`));
+      let d: ContractDeploymentState | null;
       try {
-        const file = fs.readFileSync(deploymentFile).toString();
-        const d: ContractDeploymentState = JSON.parse(file);
-
-        // merge
-        deploymentData = {
-          deployments: [...deploymentData.deployments, ...d.deployments],
-          calls: [...deploymentData.calls, ...d.calls],
-          sends: [...deploymentData.sends, ...d.sends],
-        };
-      } catch {
+        d = loadDeploymentState(storage, _chainId); // null if missing
+      } catch (e) {
+        this.log(chalk.red(`  - Invalid deployment [${deploymentFile}]`));
+        throw e;
+      }
+      if (d === null) {
         this.log(chalk.red(`  - No deployment found [${deploymentFile}]`));
         throw new Error('No deployment found');
       }
+
+      // merge
+      deploymentData = {
+        deployments: [...deploymentData.deployments, ...d.deployments],
+        calls: [...deploymentData.calls, ...d.calls],
+        sends: [...deploymentData.sends, ...d.sends],
+        proxies: [...deploymentData.proxies, ...d.proxies],
+      };
     }
     this.log(chalk.blue(`  - loaded [${chalk.white('Deployment Info')}]`));
 
@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { createAddressBook, renderAddressBookJson, renderAddressBookModule } from '../scripts/addressBook';
+import { ContractDeploymentState, MemoryDeploymentStorage, ProxyKind } from '../scripts/deploymentStorage';
+
+const ADDRESS_A = '0x00000000000000000000000000000000000000aa';
+const ADDRESS_B = '0x00000000000000000000000000000000000000bb';
+const ABI = [{ type: 'function', name: 'total', inputs: [], outputs: [], stateMutability: 'view' }];
+
+const writeState = (_storage: MemoryDeploymentStorage, _chainId: number, _state: ContractDeploymentState) => {
+  _storage.write(_chainId, 'info.json', JSON.stringify({ version: 3, ..._state }));
+};
+
+describe('AddressBook', () => {
+  let artifacts: string;
+
+  beforeEach(async () => {
+    artifacts = fs.mkdtempSync(path.join(os.tmpdir(), 'address-book-'));
+    fs.mkdirSync(`${artifacts}/contracts/Token.sol`, { recursive: true });
+    fs.writeFileSync(`${artifacts}/contracts/Token.sol/Token.json`, JSON.stringify({ abi: ABI }));
+  });
+
+  afterEach(async () => {
+    fs.rmSync(artifacts, { recursive: true, force: true });
+  });
+
+  it('Export', async () => {
+    const storage = new MemoryDeploymentStorage();
+    writeState(storage, 1, {
+      deployments: [
+        { id: 'token', txHash: '0x01', address: ADDRESS_A, contractName: 'contracts/Token.sol:Token' },
+        { id: 'vault@Token', txHash: '0x02', address: ADDRESS_B, contractName: 'contracts/Token.sol:Token' },
+        { id: 'vault', txHash: '0x03', address: ADDRESS_B },
+      ],
+      calls: [],
+      sends: [],
+      proxies: [
+        {
+          id: 'vault',
+          kind: ProxyKind.UUPS,
+          implementations: [{ name: 'Token', deploymentId: 'vault@Token', address: ADDRESS_B }],
+        },
+      ],
+    });
+    writeState(storage, 56, {
+      deployments: [{ id: 'token', txHash: '0x04', address: ADDRESS_B }],
+      calls: [],
+      sends: [],
+      proxies: [],
+    });
+    const book = createAddressBook(storage, { artifacts });
+
+    // all chains, implementations are internal
+    expect(Object.keys(book)).to.deep.equal(['1', '56']);
+    expect(Object.keys(book[1])).to.have.members(['token', 'vault']);
+    expect(book[1].vault.abi).to.deep.equal(ABI);
+
+    // module compiles
+    const module = renderAddressBookModule(book);
+    const output = ts.transpileModule(module, { reportDiagnostics: true });
+    expect(output.diagnostics).to.be.empty;
+    expect(module).to.include('abi: TokenAbi');
+    expect(JSON.parse(renderAddressBookJson(book))['56'].token.address).to.be.equal(ADDRESS_B);
+  });
+
+  it('Invalid Names', async () => {
+    const storage = new MemoryDeploymentStorage();
+    writeState(storage, 1, {
+      deployments: [
+        { id: 'my-token', txHash: '0x01', address: ADDRESS_A },
+        { id: 'class', txHash: '0x02', address: ADDRESS_B },
+      ],
+      calls: [],
+      sends: [],
+      proxies: [],
+    });
+
+    // check
+    expect(() => createAddressBook(storage, { artifacts })).to.throw(/1\/my-token, 1\/class/);
+    const book = createAddressBook(storage, { artifacts, names: { 'my-token': 'myToken', class: 'classToken' } });
+    expect(Object.keys(book[1])).to.have.members(['myToken', 'classToken']);
+  });
+});
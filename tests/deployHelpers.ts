@@ -1,6 +1,50 @@
 import { expect } from 'chai';
-import { DeployHelper } from '../scripts/deployHelpers';
-import { TestERC20 } from '../typechain';
+import fs from 'fs';
+import hre from 'hardhat';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  AccessCheckKind,
+  ContractSendStatus,
+  DEPLOYMENT_STATE_VERSION,
+  DeployEvent,
+  DeployEventType,
+  DeployHelper,
+  DeploymentDriftStatus,
+  InputChangePolicy,
+  MemoryDeploymentStorage,
+  DeployPlanStepStatus,
+  TimelockOperationStatus,
+  VerificationStatus,
+  auditAccess,
+  loadDeploymentState,
+  migrateDeploymentState,
+  runDeployManifest,
+} from '../scripts/deployHelpers';
+import { runOnNetwork } from '../scripts/hardhatNetworks';
+import {
+  TestAccess,
+  TestAccess__factory,
+  TestERC20,
+  TestERC20__factory,
+  TestSafe,
+  TestUpgradeable,
+  TestUpgradeableV2,
+  TimelockController,
+  TimelockController__factory,
+} from '../typechain';
+import { startNode } from './helpers/node';
+
+// keyless CREATE2 deployer
+const setupDeterministicDeployer = async () => {
+  const factory = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+  const code =
+    '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3';
+  await ethers.provider.send('hardhat_setCode', [factory, code]);
+  return factory;
+};
 
 describe('DeployHelpers', () => {
   let deployHelper: DeployHelper;
@@ -21,4 +65,869 @@ describe('DeployHelpers', () => {
     // check
     expect(await con.symbol()).to.be.equal('TEST');
   });
+
+  it('Verify', async () => {
+    // mock etherscan api
+    const submitted: URLSearchParams[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const params = req.method === 'POST' ? new URLSearchParams(body) : new URL(req.url!, 'http://x').searchParams;
+        let result: any = { status: '1', message: 'OK', result: 'Pass - Verified' };
+        if (params.get('action') === 'getsourcecode')
+          result = { status: '1', message: 'OK', result: [{ SourceCode: '' }] };
+        else if (params.get('action') === 'verifysourcecode') {
+          submitted.push(params);
+          result = { status: '1', message: 'OK', result: 'guid' };
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(result));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+    // deploy & verify
+    deployHelper = new DeployHelper({ silent: true, verification: { apiKey: 'KEY', apiUrl: url, browserUrl: url } });
+    await deployHelper.deploy(
+      'ERC20_Verify',
+      'TestERC20',
+      async () => await (await ethers.getContractFactory('TestERC20')).deploy('TEST', 'Test')
+    );
+    await deployHelper.verifyAll();
+    server.close();
+
+    // check
+    expect(submitted.length).to.be.equal(1);
+    expect(submitted[0].get('contractname')).to.be.equal('contracts/Test.sol:TestERC20');
+    expect(submitted[0].get('constructorArguements')).to.be.equal(
+      ethers.AbiCoder.defaultAbiCoder().encode(['string', 'string'], ['TEST', 'Test']).slice(2)
+    );
+    const info = JSON.parse(fs.readFileSync('./deploy/deployments/31337/info.json').toString());
+    const d = info.deployments.find((i: any) => i.id === 'ERC20_Verify');
+    expect(d.verification.status).to.be.equal(VerificationStatus.Verified);
+  });
+
+  it('Deterministic', async () => {
+    const factory = await setupDeterministicDeployer();
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true });
+    await deploy.init();
+
+    // deployed at the predicted address
+    const initCode = (await (await ethers.getContractFactory('TestERC20')).getDeployTransaction('DET', 'Det')).data;
+    const predicted = ethers.getCreate2Address(factory, ethers.id('det'), ethers.keccak256(initCode));
+    const con: TestERC20 = await deploy.deployDeterministic('det', 'TestERC20', ['DET', 'Det'], { salt: 'det' });
+    expect(await con.getAddress()).to.be.equal(predicted);
+    expect(await con.symbol()).to.be.equal('DET');
+
+    // cached on re-run
+    const events: DeployEvent[] = [];
+    const rerun = new DeployHelper({ storage, silent: true, sinks: [{ handle: e => events.push(e) }] });
+    rerun.forceLoadLocal = true;
+    await rerun.init();
+    const nonce = await ethers.provider.getTransactionCount(await rerun.getDeployerAddress());
+    const cached: TestERC20 = await rerun.deployDeterministic('det', 'TestERC20', ['DET', 'Det'], { salt: 'det' });
+    expect(await cached.getAddress()).to.be.equal(predicted);
+    expect(events.map(e => e.type)).to.include(DeployEventType.CachedHit);
+    expect(await ethers.provider.getTransactionCount(await rerun.getDeployerAddress())).to.be.equal(nonce);
+  });
+
+  it('Proxy', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true });
+    await deploy.init();
+
+    // deploy & initialize
+    const con: TestUpgradeable = await deploy.deployProxy('proxy', 'TestUpgradeable', [5], {
+      proxyContract: 'TestProxy',
+    });
+    expect(await con.value()).to.be.equal(5n);
+    expect(await con.version()).to.be.equal(1n);
+
+    // upgrade
+    const v2: TestUpgradeableV2 = await deploy.upgrade('proxy', 'TestUpgradeableV2', {
+      call: { fn: 'initialize', args: [7] },
+    });
+    expect(await v2.getAddress()).to.be.equal(await con.getAddress());
+    expect(await v2.version()).to.be.equal(2n);
+    expect(await v2.value()).to.be.equal(7n);
+    expect(deploy.getProxyHistory('proxy').map(i => i.name)).to.be.deep.equal(['TestUpgradeable', 'TestUpgradeableV2']);
+
+    // re-run doesn't upgrade twice
+    const rerun = new DeployHelper({ storage, silent: true });
+    rerun.forceLoadLocal = true;
+    await rerun.init();
+    await rerun.upgrade('proxy', 'TestUpgradeableV2', { call: { fn: 'initialize', args: [7] } });
+    expect(rerun.getProxyHistory('proxy')).to.have.length(2);
+
+    // proposed upgrade is pending, history is kept
+    await rerun.deployProxy('proxy2', 'TestUpgradeable', [1], { proxyContract: 'TestProxy' });
+    const safeContract = await (await ethers.getContractFactory('TestSafe')).deploy();
+    const safe = new DeployHelper({ storage, silent: true, safe: { address: await safeContract.getAddress() } });
+    safe.forceLoadLocal = true;
+    await safe.init();
+    let error = '';
+    await safe.upgrade('proxy2', 'TestUpgradeableV2').catch(e => (error = e.message));
+    expect(error).to.be.equal('Upgrade pending');
+    expect(safe.getProxyHistory('proxy2').map(i => i.name)).to.be.deep.equal(['TestUpgradeable']);
+    const proposed = loadDeploymentState(storage, safe.chainId)?.sends.find(s => s.id === 'proxy2.upgrade.1');
+    expect(proposed?.status).to.be.equal(ContractSendStatus.Proposed);
+  });
+
+  it('Input Changes', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const run = async (_policy: InputChangePolicy) => {
+      const deploy = new DeployHelper({ storage, silent: true, inputChangePolicy: _policy });
+      deploy.forceLoadLocal = true;
+      await deploy.init();
+      return deploy;
+    };
+    const factory = await ethers.getContractFactory('TestERC20');
+    const a = await factory.deploy('A', 'A');
+    const b = await factory.deploy('B', 'B');
+    let token: TestERC20 = a;
+    let fail = false;
+    const call = async (_policy: InputChangePolicy) =>
+      await (
+        await run(_policy)
+      ).call('symbol', 'symbol', async () => {
+        if (fail) throw new Error('call reverted');
+        return await token.symbol();
+      });
+    expect(await call(InputChangePolicy.Warn)).to.be.equal('A');
+
+    // warn: cached result
+    token = b;
+    expect(await call(InputChangePolicy.Warn)).to.be.equal('A');
+
+    // fail: throws
+    await expect(call(InputChangePolicy.Fail)).to.be.rejectedWith('Inputs changed for symbol');
+
+    // reexecute: new result is stored
+    expect(await call(InputChangePolicy.Reexecute)).to.be.equal('B');
+    expect(await call(InputChangePolicy.Fail)).to.be.equal('B');
+
+    // failing check keeps the cached result
+    fail = true;
+    expect(await call(InputChangePolicy.Fail)).to.be.equal('B');
+  });
+
+  it('Concurrent Calls', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true });
+    await deploy.init();
+    const factory = await ethers.getContractFactory('TestERC20');
+    const a = await factory.deploy('A', 'A');
+    const b = await factory.deploy('B', 'B');
+    const providerCall = ethers.provider.call;
+
+    // the first call finishes last
+    let finishA = () => {};
+    const waitA = new Promise<void>(resolve => (finishA = resolve));
+    const results = await Promise.all([
+      deploy.call('a', 'a', async () => {
+        const symbol = await a.symbol();
+        await waitA;
+        return symbol;
+      }),
+      deploy.call('b', 'b', async () => {
+        const symbol = await b.symbol();
+        finishA();
+        return symbol;
+      }),
+    ]);
+    expect(results).to.be.deep.equal(['A', 'B']);
+
+    // each fingerprint has only its own read & the provider is restored
+    const calls = JSON.parse(storage.read(31337, 'info.json')!).calls;
+    const read = async (_token: TestERC20) =>
+      `${(await _token.getAddress()).toLowerCase()}:${_token.interface.encodeFunctionData('symbol')}`;
+    const fingerprint = (_id: string) => calls.find((c: any) => c.id === _id).fingerprint.calls;
+    expect([fingerprint('a'), fingerprint('b')]).to.be.deep.equal([await read(a), await read(b)]);
+    expect(ethers.provider.call).to.be.equal(providerCall);
+  });
+
+  it('Signer', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const run = async () => {
+      const deploy = new DeployHelper({ storage, silent: true, inputChangePolicy: InputChangePolicy.Reexecute });
+      deploy.forceLoadLocal = true;
+      await deploy.init();
+      return deploy;
+    };
+    const deploy = await run();
+    const deployer = await deploy.getDeployerAddress();
+    const [, other] = await ethers.getSigners();
+    const token: TestERC20 = await deploy.deploy(
+      'signer.token',
+      'TestERC20',
+      async () => await (await deploy.getContractFactory<TestERC20__factory>('TestERC20')).deploy('SIG', 'Signer')
+    );
+    let amount = 1n;
+    const approve = async () => await token.approve.populateTransaction(other.address, amount);
+    expect(await deploy.send('signer.approve', 'approve', approve)).to.be.true;
+    expect(await token.allowance(deployer, other.address)).to.be.equal(1n);
+
+    // changed inputs are captured through the helper's signer & sent again
+    const rerun = await run();
+    amount = 2n;
+    const nonce = await ethers.provider.getTransactionCount(deployer);
+    await rerun.send('signer.approve', 'approve', approve);
+    expect(await token.allowance(deployer, other.address)).to.be.equal(2n);
+    expect(await ethers.provider.getTransactionCount(deployer)).to.be.equal(nonce + 1);
+
+    // other signers are never captured, so their callbacks are not checked again
+    await rerun.send('signer.other', 'other', async () => await other.sendTransaction({ to: other.address }));
+    const sends = loadDeploymentState(storage, rerun.chainId)!.sends;
+    expect(sends.find(s => s.id === 'signer.approve')?.fingerprint).to.not.be.undefined;
+    expect(sends.find(s => s.id === 'signer.other')?.fingerprint).to.be.undefined;
+
+    // checking the inputs of a cached send never broadcasts transactions of other signers
+    const mixed = async () => {
+      await other.sendTransaction({ to: other.address });
+      return await token.approve.populateTransaction(other.address, amount);
+    };
+    await rerun.send('signer.mixed', 'mixed', mixed);
+    const otherNonce = await ethers.provider.getTransactionCount(other.address);
+    await (await run()).send('signer.mixed', 'mixed', mixed);
+    expect(await ethers.provider.getTransactionCount(other.address)).to.be.equal(otherNonce);
+  });
+
+  it('Migrate', async () => {
+    // version 1 file
+    const state = migrateDeploymentState({
+      deployments: [{ id: 'A', txHash: '0x01', address: '0x0000000000000000000000000000000000000001' }],
+      calls: [],
+      sends: [{ id: 'B', txHash: '0x02', success: true }],
+    });
+
+    // check
+    expect(state.proxies).to.be.deep.equal([]);
+    expect(state.sends[0].status).to.be.equal(ContractSendStatus.Executed);
+    expect(state.deployments[0].id).to.be.equal('A');
+    expect(() => migrateDeploymentState({ ...state, version: DEPLOYMENT_STATE_VERSION + 1 })).to.throw();
+    expect(() => migrateDeploymentState({ deployments: [] })).to.throw();
+  });
+
+  it('Storage', async () => {
+    // state in memory
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true });
+    await deploy.init();
+    const [signer] = await ethers.getSigners();
+    await deploy.send('A', 'A', async () => await signer.sendTransaction({ to: signer.address }));
+
+    // check
+    const state = loadDeploymentState(storage, deploy.chainId);
+    expect(state?.sends[0].status).to.be.equal(ContractSendStatus.Executed);
+    expect(storage.read(deploy.chainId, 'deployed.json')).to.not.be.null;
+
+    // report with gas of the send
+    await deploy.saveReport();
+    expect(storage.read(deploy.chainId, 'report.md')).to.include(`| A | executed |`);
+    expect(state?.sends[0].gasUsed).to.be.equal('21000');
+  });
+
+  it('Events', async () => {
+    // collect events
+    const events: DeployEvent[] = [];
+    const deploy = new DeployHelper({
+      storage: new MemoryDeploymentStorage(),
+      sinks: [{ handle: e => events.push(e) }],
+    });
+    await deploy.init();
+    const [signer] = await ethers.getSigners();
+    await deploy.send('A', 'A', async () => await signer.sendTransaction({ to: signer.address }));
+    await deploy.send('A', 'A', async () => await signer.sendTransaction({ to: signer.address }));
+
+    // check
+    const lifecycle = events.filter(e => e.type !== DeployEventType.Log).map(e => e.type);
+    expect(lifecycle).to.be.deep.equal([
+      DeployEventType.SendStarted,
+      DeployEventType.TxBroadcast,
+      DeployEventType.TxMined,
+      DeployEventType.CachedHit,
+    ]);
+    expect(events.every(e => e.chainId === deploy.chainId)).to.be.true;
+  });
+
+  it('Manifest', async () => {
+    const deploy = new DeployHelper({ storage: new MemoryDeploymentStorage(), silent: true });
+    await deploy.init();
+
+    // unresolved references are reported before anything is sent
+    const invalid = { contracts: { token: { contract: 'TestERC20', args: ['${config.symbol}', '${missing}'] } } };
+    await expect(runDeployManifest(deploy, invalid)).to.be.rejectedWith('Invalid deploy manifest (2 errors)');
+    expect(deploy.getDeployments()).to.be.empty;
+
+    // deploy, call & send with references
+    const manifest = {
+      config: { default: { symbol: 'TEST', amount: '100' }, [`${deploy.chainId}`]: { amount: '200' } },
+      sends: { approve: { target: 'token', method: 'approve', args: ['${token}', '${config.amount}'] } },
+      calls: { symbol: { target: 'token', method: 'symbol' } },
+      contracts: { token: { contract: 'TestERC20', args: ['${config.symbol}', 'Test ${config.symbol}'] } },
+    };
+    expect(await runDeployManifest(deploy, manifest)).to.be.true;
+
+    // check
+    const token = deploy.getDeployments().find(d => d.id === 'token')!;
+    const con = await ethers.getContractAt('TestERC20', token.address!);
+    expect(await con.name()).to.be.equal('Test TEST');
+    expect(await con.allowance(await deploy.getDeployerAddress(), token.address!)).to.be.equal(200n);
+  });
+
+  it('Access Audit', async () => {
+    const deploy = new DeployHelper({ storage: new MemoryDeploymentStorage(), silent: true });
+    await deploy.init();
+    const [, admin] = await ethers.getSigners();
+    const factory = (_name: string) => async () => await (await ethers.getContractFactory(_name)).deploy();
+    const multicall: any = await deploy.deploy('multicall', 'TestMulticall', factory('TestMulticall'));
+    const access: any = await deploy.deploy('access', 'TestAccess', factory('TestAccess'));
+    await deploy.deploy('enumerable', 'TestAccessEnumerable', factory('TestAccessEnumerable'));
+    const options = { multicall: await multicall.getAddress(), batchSize: 3 }; // several multicalls
+
+    // handover started, but the deployer kept its roles
+    await (await access.transferOwnership(admin.address)).wait();
+    await (await access.grantRole(await access.DEFAULT_ADMIN_ROLE(), admin.address)).wait();
+    const roles = {
+      DEFAULT_ADMIN_ROLE: { members: ['${config.admin}'] },
+      MINTER_ROLE: { admin: 'DEFAULT_ADMIN_ROLE' },
+    };
+    const expectations = {
+      config: { default: { admin: admin.address } },
+      contracts: {
+        access: { owner: '${deployer}', pendingOwner: '${config.admin}', roles },
+        enumerable: { owner: null, roles: { MINTER_ROLE: { members: ['${deployer}', '${access}'] } } },
+        multicall: { owner: '${deployer}' },
+      },
+    };
+    const report = await auditAccess(deploy, expectations, options);
+
+    // check
+    expect(report.passed).to.be.false;
+    expect(report.checks.map(c => [c.id, c.kind, c.passed])).to.be.deep.equal([
+      ['access', AccessCheckKind.Owner, true],
+      ['access', AccessCheckKind.PendingOwner, true],
+      ['access', AccessCheckKind.RoleMembers, false],
+      ['access', AccessCheckKind.RoleAdmin, true],
+      ['enumerable', AccessCheckKind.Owner, false],
+      ['enumerable', AccessCheckKind.RoleMembers, false],
+      ['multicall', AccessCheckKind.Owner, false],
+    ]);
+    const [, , adminRole, , , minters, notOwnable] = report.checks;
+    const deployer = await deploy.getDeployerAddress();
+    expect([adminRole.missing, adminRole.unexpected]).to.be.deep.equal([[], [deployer]]);
+    expect([minters.actual, minters.missing]).to.be.deep.equal([[deployer], [await access.getAddress()]]);
+    expect([report.partial, adminRole.partial, minters.partial]).to.be.deep.equal([true, true, false]); // not enumerable
+    expect(notOwnable.actual).to.be.null;
+
+    // unknown ids & references fail before reading
+    await expect(
+      auditAccess(deploy, { contracts: { missing: { owner: '${deployer}' }, access: { owner: '${other}' } } }, options)
+    ).to.be.rejectedWith('Invalid access expectations (2 errors)');
+  });
+
+  it('Budget', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true });
+    deploy.forceLoadLocal = true;
+    await deploy.init();
+    const script = async (_deploy: DeployHelper) => {
+      await _deploy.deploy(
+        'token',
+        'TestERC20',
+        async () => await (await ethers.getContractFactory('TestERC20')).deploy('TEST', 'Test')
+      );
+    };
+
+    // estimated without broadcasting
+    const budget = await deploy.checkBudget(script);
+    expect(budget.steps.map(s => s.id)).to.be.deep.equal(['token']);
+    expect(budget.shortfall).to.be.equal('0');
+    expect(deploy.getDeployments()).to.be.empty;
+
+    // shortfall
+    const deployer = await deploy.getDeployerAddress();
+    const balance = await ethers.provider.getBalance(deployer);
+    await ethers.provider.send('hardhat_setBalance', [deployer, '0x1']);
+    try {
+      await expect(deploy.checkBudget(script)).to.be.rejectedWith('Insufficient balance');
+    } finally {
+      await ethers.provider.send('hardhat_setBalance', [deployer, `0x${balance.toString(16)}`]);
+    }
+
+    // ledger of the run, cached steps are not estimated again
+    await script(deploy);
+    expect(deploy.getLedger().entries.map(e => e.id)).to.be.deep.equal(['token']);
+    expect(loadDeploymentState(storage, deploy.chainId)?.runs?.[0].totalCost).to.be.equal(deploy.getLedger().totalCost);
+    expect((await deploy.checkBudget(script)).steps).to.be.empty;
+  });
+
+  it('Timelock', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true });
+    await deploy.init();
+    const deployer = await deploy.getDeployerAddress();
+    const timelock: TimelockController = await deploy.deploy(
+      'timelock',
+      'TimelockController',
+      async () =>
+        await (
+          await deploy.getContractFactory<TimelockController__factory>('TimelockController')
+        ).deploy(60, [deployer], [deployer], deployer)
+    );
+    const token: TestERC20 = await deploy.deploy(
+      'token',
+      'TestERC20',
+      async () => await (await deploy.getContractFactory<TestERC20__factory>('TestERC20')).deploy('TEST', 'Test')
+    );
+    const address = await timelock.getAddress();
+    const approve = (_amount: bigint) => async () => await token.approve.populateTransaction(deployer, _amount);
+
+    // scheduled, then pending on re-runs
+    for (let n = 0; n < 2; n++)
+      expect(await deploy.scheduleTimelock('approve', 'approve', address, approve(5n))).to.be.equal(
+        TimelockOperationStatus.Pending
+      );
+    expect(await timelock.isOperationPending(deploy.getTimelockOperation('approve')!.operationId)).to.be.true;
+
+    // batch & cancel
+    const batch = [approve(1n), approve(2n)];
+    expect(await deploy.scheduleTimelock('batch', 'batch', address, batch, { predecessor: 'approve' })).to.be.equal(
+      TimelockOperationStatus.Pending
+    );
+    expect(await deploy.cancelTimelock('batch', 'batch')).to.be.true;
+    expect(await timelock.isOperationPending(deploy.getTimelockOperation('batch')!.operationId)).to.be.false;
+    expect(await deploy.scheduleTimelock('batch', 'batch', address, batch, { predecessor: 'approve' })).to.be.equal(
+      TimelockOperationStatus.Pending
+    );
+
+    // executed after the delay
+    await ethers.provider.send('evm_increaseTime', [61]);
+    await ethers.provider.send('evm_mine', []);
+    expect(await deploy.scheduleTimelock('approve', 'approve', address, approve(5n))).to.be.equal(
+      TimelockOperationStatus.Executed
+    );
+    expect(await token.allowance(address, deployer)).to.be.equal(5n);
+
+    // executed by someone else, recorded with the execution
+    const operation = deploy.getTimelockOperation('batch')!;
+    const calls = operation.calls;
+    const tx = await timelock.executeBatch(
+      calls.map(c => c.target),
+      calls.map(c => c.value),
+      calls.map(c => c.data),
+      operation.predecessor,
+      operation.salt
+    );
+    expect(await deploy.scheduleTimelock('batch', 'batch', address, batch, { predecessor: 'approve' })).to.be.equal(
+      TimelockOperationStatus.Executed
+    );
+    const execution = loadDeploymentState(storage, deploy.chainId)!.sends.find(s => s.id === 'batch.execute');
+    expect([execution?.status, execution?.txHash]).to.be.deep.equal([ContractSendStatus.Executed, tx.hash]);
+  });
+
+  it('Libraries', async () => {
+    const deploy = new DeployHelper({ storage: new MemoryDeploymentStorage(), silent: true });
+    await deploy.init();
+
+    // missing library is deployed under its name, then reused
+    const con: any = await deploy.deployLinked('linked', 'TestLinked', []);
+    await deploy.deployLinked('linked2', 'TestLinked', []);
+    expect(await con.double(2)).to.be.equal(4n);
+    expect(deploy.getDeployments().map(d => d.id)).to.be.deep.equal(['TestLibrary', 'linked', 'linked2']);
+
+    // linked addresses are recorded & used by the drift check
+    const [library, linked] = deploy.getDeployments();
+    expect(linked.libraries).to.be.deep.equal({ 'contracts/Test.sol:TestLibrary': library.address });
+    const drift = await deploy.checkDrift();
+    expect(drift.find(d => d.id === 'linked')?.status).to.be.equal(DeploymentDriftStatus.Ok);
+
+    // cached deployments keep their libraries, nothing is resolved or deployed
+    await deploy.deployLinked('linked', 'TestLinked', [], { TestLibrary: 'otherLibrary' });
+    expect(deploy.getDeployments().map(d => d.id)).to.not.include('otherLibrary');
+
+    // deterministic deployments don't link CREATE libraries, but deploy their own deterministically
+    await setupDeterministicDeployer();
+    await expect(deploy.deployDeterministic('det', 'TestLinked', [], { salt: 'linked' })).to.be.rejectedWith(
+      'not deployed deterministically'
+    );
+    const fresh = new DeployHelper({ storage: new MemoryDeploymentStorage(), silent: true });
+    await fresh.init();
+    const det: any = await fresh.deployDeterministic('det', 'TestLinked', [], { salt: 'linked' });
+    expect(await det.double(2)).to.be.equal(4n);
+    expect(fresh.getDeployments().find(d => d.id === 'TestLibrary')?.deterministic?.salt).to.be.equal(
+      ethers.id('contracts/Test.sol:TestLibrary')
+    );
+  });
+
+  it('Send Result', async () => {
+    const deploy = new DeployHelper({ storage: new MemoryDeploymentStorage(), silent: true });
+    await deploy.init();
+    const con: TestERC20 = await deploy.deploy(
+      'token',
+      'TestERC20',
+      async () => await (await deploy.getContractFactory<TestERC20__factory>('TestERC20')).deploy('TEST', 'Test')
+    );
+    const [signer] = await ethers.getSigners();
+
+    // decoded & stored events
+    const result = await deploy.sendWithResult(
+      'approve',
+      'approve',
+      async () => await con.approve(signer.address, 5n),
+      { events: ['Approval'] }
+    );
+    expect(result && result.events.map(e => [e.deploymentId, e.name, e.args.value])).to.be.deep.equal([
+      ['token', 'Approval', 5n],
+    ]);
+    expect(deploy.getStoredEvents('approve', 'Approval')[0].args).to.be.deep.equal({
+      owner: signer.address,
+      spender: signer.address,
+      value: '5',
+    });
+
+    // cached send still returns the events, send only whether it was executed
+    const cached = await deploy.sendWithResult('approve', 'approve', async () => await con.approve(signer.address, 5n));
+    expect(cached && cached.receipt?.hash).to.be.equal(result && result.receipt?.hash);
+    expect(await deploy.send('approve', 'approve', async () => await con.approve(signer.address, 5n))).to.be.true;
+
+    // register an address under a new id
+    const registered: TestERC20 = await deploy.registerDeployment('alias', 'TestERC20', await con.getAddress());
+    expect(await registered.symbol()).to.be.equal('TEST');
+    expect((await deploy.load<TestERC20>('alias', 'TestERC20')).target).to.be.equal(await con.getAddress());
+  });
+
+  it('Stuck Transactions', async () => {
+    const [signer] = await ethers.getSigners();
+    const createHelper = async (_sends: any[]) => {
+      const storage = new MemoryDeploymentStorage();
+      const state = { version: DEPLOYMENT_STATE_VERSION, deployments: [], calls: [], sends: _sends, proxies: [] };
+      storage.write(31337, 'info.json', JSON.stringify(state));
+      const deploy = new DeployHelper({
+        storage,
+        silent: true,
+        fees: { pollInterval: 10, speedUpTimeout: 100, dropTimeout: 300 },
+        // replacements are mined right away
+        sinks: [{ handle: e => e.type === DeployEventType.TxReplaced && ethers.provider.send('evm_mine', []) }],
+      });
+      deploy.forceLoadLocal = true;
+      await deploy.init();
+      return { deploy, storage };
+    };
+    const createPending = async (_id: string) => {
+      const tx = await signer.sendTransaction({ to: signer.address });
+      return { id: _id, txHash: tx.hash, status: ContractSendStatus.Pending, from: signer.address, nonce: tx.nonce };
+    };
+    const transfer = async () => ({ to: signer.address });
+
+    await ethers.provider.send('evm_setAutomine', [false]);
+    try {
+      // sped up after the timeout
+      const speedUp = await createHelper([await createPending('A')]);
+      expect(await speedUp.deploy.send('A', 'A', transfer)).to.be.true;
+      const a = loadDeploymentState(speedUp.storage, 31337)!.sends[0];
+      expect(a.status).to.be.equal(ContractSendStatus.Executed);
+      expect(a.replacedTxHashes).to.have.length(1);
+
+      // cancelled, executed again on the next run
+      const cancel = await createHelper([await createPending('B')]);
+      expect(await cancel.deploy.cancel('B')).to.be.true;
+      expect(loadDeploymentState(cancel.storage, 31337)!.sends[0].status).to.be.equal(ContractSendStatus.Failed);
+    } finally {
+      await ethers.provider.send('evm_setAutomine', [true]);
+    }
+
+    // unknown hash with a free nonce: dropped after the timeout & sent again
+    const nonce = await ethers.provider.getTransactionCount(signer.address);
+    const unknown = { status: ContractSendStatus.Pending, from: signer.address };
+    const dropped = await createHelper([{ ...unknown, id: 'C', txHash: ethers.id('C'), nonce }]);
+    const start = Date.now();
+    expect(await dropped.deploy.send('C', 'C', transfer)).to.be.true;
+    expect(Date.now() - start).to.be.gte(300);
+    expect(loadDeploymentState(dropped.storage, 31337)!.sends[0].nonce).to.be.equal(nonce);
+
+    // unknown hash with a used nonce: not sent twice
+    const used = await createHelper([{ ...unknown, id: 'D', txHash: ethers.id('D'), nonce }]);
+    await expect(used.deploy.send('D', 'D', transfer)).to.be.rejectedWith('Nonce was used');
+    expect(await ethers.provider.getTransactionCount(signer.address)).to.be.equal(nonce + 1);
+
+    // unknown hash of a legacy record without sender & nonce: never treated as dropped
+    const legacy = await createHelper([{ id: 'E', txHash: ethers.id('E'), status: ContractSendStatus.Pending }]);
+    await expect(legacy.deploy.send('E', 'E', transfer)).to.be.rejectedWith("can't be checked for a drop");
+    expect(await ethers.provider.getTransactionCount(signer.address)).to.be.equal(nonce + 1);
+  });
+
+  it('Send Group', async () => {
+    const [signer] = await ethers.getSigners();
+    const storage = new MemoryDeploymentStorage();
+    const deploy = new DeployHelper({ storage, silent: true, fees: { pollInterval: 10, dropTimeout: 300 } });
+    deploy.forceLoadLocal = true;
+    await deploy.init();
+    const transfer = async () => ({ to: signer.address });
+    const nonceOf = (_id: string) => loadDeploymentState(storage, 31337)!.sends.find(s => s.id === _id)?.nonce;
+
+    // consecutive nonces
+    const nonce = await ethers.provider.getTransactionCount(signer.address);
+    expect(
+      await deploy.sendGroup('group', async () => {
+        for (const id of ['A', 'B', 'C']) await deploy.send(id, id, transfer);
+      })
+    ).to.be.true;
+    expect(['A', 'B', 'C'].map(nonceOf)).to.be.deep.equal([nonce, nonce + 1, nonce + 2]);
+
+    // after a crash: a transaction in the mempool & a dropped one
+    await ethers.provider.send('evm_setAutomine', [false]);
+    try {
+      const pending = await signer.sendTransaction({ to: signer.address });
+      const state = loadDeploymentState(storage, 31337)!;
+      state.sends.push({
+        id: 'D',
+        txHash: ethers.id('D'),
+        status: ContractSendStatus.Pending,
+        from: signer.address,
+        nonce: pending.nonce + 1,
+      });
+      storage.write(31337, 'info.json', JSON.stringify({ version: DEPLOYMENT_STATE_VERSION, ...state }));
+      const rerun = new DeployHelper({
+        storage,
+        silent: true,
+        fees: { pollInterval: 10, dropTimeout: 300 },
+        sinks: [{ handle: e => e.type === DeployEventType.TxBroadcast && ethers.provider.send('evm_mine', []) }],
+      });
+      rerun.forceLoadLocal = true;
+      await rerun.init();
+
+      // the dropped nonce is reused, the one in the mempool is not
+      expect(
+        await rerun.sendGroup('group', async () => {
+          for (const id of ['D', 'E']) await rerun.send(id, id, transfer);
+        })
+      ).to.be.true;
+      expect(['D', 'E'].map(nonceOf)).to.be.deep.equal([pending.nonce + 1, pending.nonce + 2]);
+    } finally {
+      await ethers.provider.send('evm_setAutomine', [true]);
+    }
+  });
+
+  it('Safe', async () => {
+    // mock transaction service
+    let executed: any[] = [];
+    const server = http.createServer((_req, _res) => {
+      _res.setHeader('Content-Type', 'application/json');
+      _res.end(JSON.stringify({ results: executed, next: null }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const storage = new MemoryDeploymentStorage();
+      const token: TestERC20 = await (await ethers.getContractFactory('TestERC20')).deploy('TEST', 'Test');
+      const safeContract: TestSafe = await (await ethers.getContractFactory('TestSafe')).deploy();
+      const safe = await safeContract.getAddress();
+      const [signer] = await ethers.getSigners();
+      const approve = async () => await token.approve.populateTransaction(signer.address, 5n);
+      const { to, data } = await approve();
+      const run = async () => {
+        const deploy = new DeployHelper({ storage, silent: true, safe: { address: safe, transactionServiceUrl: url } });
+        deploy.forceLoadLocal = true;
+        await deploy.init();
+        return await deploy.send('approve', 'approve', approve);
+      };
+      const state = () => loadDeploymentState(storage, 31337)!.sends[0];
+      const execution = (_nonce: number, _success: boolean, _txHash: string) => ({
+        to,
+        value: '0',
+        data,
+        nonce: _nonce,
+        safeTxHash: ethers.id(`${_nonce}`),
+        transactionHash: _txHash,
+        isSuccessful: _success,
+      });
+
+      // proposed at the current Safe nonce
+      await (await safeContract.setNonce(3)).wait();
+      expect(await run()).to.be.false;
+      expect(state().safeTransaction?.nonce).to.be.equal(3);
+
+      // an earlier execution of the same call doesn't count
+      const tx = await signer.sendTransaction({ to: signer.address });
+      executed = [execution(2, true, tx.hash)];
+      expect(await run()).to.be.false;
+      expect(state().status).to.be.equal(ContractSendStatus.Proposed);
+
+      // failed, proposed again at the next nonce
+      executed.push(execution(3, false, tx.hash));
+      await (await safeContract.setNonce(4)).wait();
+      expect(await run()).to.be.false;
+      expect(state().safeTransaction?.nonce).to.be.equal(4);
+
+      // executed in a multi send
+      executed.push({
+        ...execution(4, true, tx.hash),
+        to: safe,
+        data: '0x',
+        dataDecoded: { method: 'multiSend', parameters: [{ valueDecoded: [{ to, value: '0', data }] }] },
+      });
+      expect(await run()).to.be.true;
+      expect(state().status).to.be.equal(ContractSendStatus.Executed);
+      expect(state().safeTransaction?.safeTxHash).to.be.equal(ethers.id('4'));
+    } finally {
+      server.close();
+    }
+  });
+
+  it('Offline', async () => {
+    const storage = new MemoryDeploymentStorage();
+    const wallet = ethers.Wallet.createRandom(ethers.provider);
+    await ethers.provider.send('hardhat_setBalance', [wallet.address, `0x${(10n ** 20n).toString(16)}`]);
+    const script = async (_deploy: DeployHelper) => {
+      const token: TestERC20 = await _deploy.deploy(
+        'token',
+        'TestERC20',
+        async () => await (await _deploy.getContractFactory<TestERC20__factory>('TestERC20')).deploy('TEST', 'Test')
+      );
+      await _deploy.send('approve', 'approve', async () => await token.approve.populateTransaction(wallet.address, 5n));
+      return await _deploy.call('symbol', 'symbol', async () => await token.symbol());
+    };
+
+    // export stops at the first read of an exported deployment
+    const offline = new DeployHelper({ storage, silent: true, offline: { from: wallet.address, gasLimit: 100000n } });
+    await offline.init();
+    await expect(script(offline)).to.be.rejectedWith('Offline export pending');
+    const batch = JSON.parse(storage.read(31337, 'offline-unsigned.json')!);
+    expect(batch.transactions.map((t: any) => t.id)).to.be.deep.equal(['token', 'approve']);
+    expect(offline.getDeployments()).to.be.empty;
+
+    // sign & import
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'offline-')), 'signed.json');
+    const signed = [];
+    for (const t of batch.transactions) signed.push(await wallet.signTransaction(t.transaction));
+    const deploy = new DeployHelper({ storage, silent: true });
+    deploy.forceLoadLocal = true;
+    await deploy.init();
+    fs.writeFileSync(file, JSON.stringify([signed[0], { hash: '0x01' }]));
+    await expect(deploy.importSignedTransactions(file)).to.be.rejectedWith('Invalid signed transaction [1]');
+    fs.writeFileSync(file, JSON.stringify(signed));
+    await deploy.importSignedTransactions(file);
+    fs.rmSync(path.dirname(file), { recursive: true });
+
+    // imported steps are awaited & cached, the rest of the script runs
+    const rerun = new DeployHelper({ storage, silent: true });
+    rerun.forceLoadLocal = true;
+    await rerun.init();
+    expect(await script(rerun)).to.be.equal('TEST');
+    expect(rerun.getDeployments().map(d => d.address)).to.be.deep.equal([batch.transactions[0].address]);
+    expect(loadDeploymentState(storage, 31337)!.sends[0].status).to.be.equal(ContractSendStatus.Executed);
+  });
+
+  it('Dry Run', async () => {
+    // without a fork, there is no state to compare with
+    await expect(new DeployHelper({ dryRun: true, silent: true }).init()).to.be.rejectedWith('dryRunFork');
+
+    // target chain: a separate node with a contract owned by another account
+    const node = await startNode(8546);
+    try {
+      const url = 'http://127.0.0.1:8546';
+      const owner = await new ethers.JsonRpcProvider(url).getSigner(5);
+      const access = await (await ethers.getContractFactory('TestAccess')).connect(owner).deploy();
+      await access.waitForDeployment();
+      const storage = new MemoryDeploymentStorage();
+      storage.write(
+        31337,
+        'info.json',
+        JSON.stringify(
+          migrateDeploymentState({
+            deployments: [{ id: 'access', name: 'TestAccess', address: await access.getAddress() }],
+            calls: [],
+            sends: [],
+          })
+        )
+      );
+
+      // owner-only steps run as the impersonated deployer
+      const deploy = new DeployHelper({
+        storage,
+        silent: true,
+        dryRun: true,
+        dryRunFork: { url, deployer: owner.address },
+      });
+      deploy.forceLoadLocal = true;
+      await deploy.init();
+      expect(await deploy.getDeployerAddress()).to.be.equal(owner.address);
+      const con: TestAccess = await deploy.deploy(
+        'access',
+        'TestAccess',
+        async () => await (await deploy.getContractFactory<TestAccess__factory>('TestAccess')).deploy()
+      );
+      const [signer] = await ethers.getSigners();
+      expect(
+        await deploy.send(
+          'transfer',
+          'transfer',
+          async () => await con.transferOwnership.populateTransaction(signer.address)
+        )
+      ).to.be.true;
+
+      // cost at the current fee
+      const plan = await deploy.getPlan();
+      expect(plan.steps.map(s => [s.id, s.status])).to.be.deep.equal([
+        ['access', DeployPlanStepStatus.Cached],
+        ['transfer', DeployPlanStepStatus.Execute],
+      ]);
+      const block = await ethers.provider.getBlock('latest');
+      const fees = await ethers.provider.getFeeData();
+      expect(plan.feePerGas).to.be.equal((block!.baseFeePerGas! + fees.maxPriorityFeePerGas!).toString());
+    } finally {
+      await ethers.provider.send('hardhat_reset', []);
+      node.kill();
+    }
+  });
+
+  it('Budget on Fork', async () => {
+    // localhost node, estimated on an in-process fork
+    const node = await startNode(8545);
+    try {
+      await runOnNetwork('localhost', async () => {
+        const deploy = new DeployHelper({ storage: new MemoryDeploymentStorage(), silent: true });
+        deploy.forceLoadLocal = true;
+        await deploy.init();
+        const script = async (_deploy: DeployHelper) => {
+          const access: TestAccess = await _deploy.deploy(
+            'access',
+            'TestAccess',
+            async () => await (await _deploy.getContractFactory<TestAccess__factory>('TestAccess')).deploy()
+          );
+          await _deploy.send(
+            'grant',
+            'grant',
+            async () => await access.grantRole.populateTransaction(await access.MINTER_ROLE(), access.target)
+          );
+        };
+        await script(deploy);
+        const next = async (_deploy: DeployHelper) => {
+          await script(_deploy);
+          const access = await _deploy.load<TestAccess>('access', 'TestAccess');
+          await _deploy.send(
+            'transfer',
+            'transfer',
+            async () => await access.transferOwnership.populateTransaction(access.target)
+          );
+        };
+
+        // owner-only step of the deployer
+        const budget = await deploy.checkBudget(next);
+        expect(budget.steps.map(s => s.id)).to.be.deep.equal(['transfer']);
+        expect(hre.network.name).to.be.equal('localhost');
+      });
+
+      // in-process network is not left on the fork
+      expect(hre.network.name).to.be.equal('hardhat');
+      expect((await ethers.provider.send('hardhat_metadata', [])).forkedNetwork).to.be.undefined;
+    } finally {
+      node.kill();
+    }
+  });
 });
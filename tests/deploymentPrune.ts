@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PruneEntryKind, pruneDeploymentState, pruneState } from '../scripts/deploymentPrune';
+import {
+  ContractDeploymentState,
+  ContractSendStatus,
+  FileDeploymentStorage,
+  loadDeploymentState,
+} from '../scripts/deploymentStorage';
+
+const ADDRESS_A = '0x00000000000000000000000000000000000000aA';
+const ADDRESS_B = '0x00000000000000000000000000000000000000bb';
+
+const makeState = (): ContractDeploymentState => ({
+  deployments: [
+    { id: 'token', txHash: '0x01', address: ADDRESS_A },
+    { id: 'vault', txHash: '0x02', address: ADDRESS_B, fingerprint: { constructorArgs: `${'0'.repeat(62)}aa` } },
+    { id: 'other', txHash: '0x03', address: '0x00000000000000000000000000000000000000cc' },
+  ],
+  calls: [{ id: 'token_decimals', result: '18', fingerprint: { calls: `${ADDRESS_A.toLowerCase()}:0x313ce567` } }],
+  sends: [
+    {
+      id: 'vault_init',
+      txHash: '0x04',
+      status: ContractSendStatus.Executed,
+      fingerprint: { to: ADDRESS_B, data: '0x' },
+    },
+  ],
+  proxies: [],
+});
+
+describe('DeploymentPrune', () => {
+  it('Prune', async () => {
+    // selected only
+    const { removed } = pruneState(makeState(), ['token*']);
+    expect(removed.map(r => [r.kind, r.id])).to.deep.equal([
+      [PruneEntryKind.Deployment, 'token'],
+      [PruneEntryKind.Call, 'token_decimals'],
+    ]);
+
+    // cascade to entries using the removed addresses
+    const { state, removed: cascaded } = pruneState(makeState(), ['token'], true);
+    expect(cascaded.map(r => [r.id, r.reason])).to.deep.equal([
+      ['token', undefined],
+      ['vault', 'token'],
+      ['token_decimals', 'token'],
+      ['vault_init', 'vault'],
+    ]);
+    expect(state.deployments.map(d => d.id)).to.deep.equal(['other']);
+  });
+
+  it('Storage', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'deployment-prune-'));
+    const storage = new FileDeploymentStorage(root, 0);
+    storage.write(1, 'info.json', JSON.stringify({ version: 3, ...makeState() }));
+
+    // preview
+    expect(pruneDeploymentState(storage, 1, ['vault'], { preview: true })).to.have.length(1);
+    expect(loadDeploymentState(storage, 1)?.deployments).to.have.length(3);
+
+    // not while a script holds the state
+    fs.writeFileSync(`${root}/1/info.json.lock`, JSON.stringify({ pid: process.ppid, host: os.hostname(), since: '' }));
+    expect(() => pruneDeploymentState(storage, 1, ['vault'])).to.throw(/is locked by process/);
+    fs.rmSync(`${root}/1/info.json.lock`);
+
+    // apply with backup
+    expect(pruneDeploymentState(storage, 1, ['vault'])).to.have.length(1);
+    expect(loadDeploymentState(storage, 1)?.deployments).to.have.length(2);
+    const backup = fs.readdirSync(`${root}/1`).find(f => /^info\.prune-.+\.json$/.test(f))!;
+    expect(JSON.parse(fs.readFileSync(`${root}/1/${backup}`).toString()).deployments).to.have.length(3);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import {
+  DeploymentReportChangeType,
+  createDeploymentReport,
+  diffDeploymentStates,
+  renderHtmlReport,
+  renderMarkdownReport,
+} from '../scripts/deploymentReport';
+import { ContractDeploymentState, ContractSendStatus } from '../scripts/deploymentStorage';
+
+const ADDRESS_A = '0x00000000000000000000000000000000000000aa';
+const ADDRESS_B = '0x00000000000000000000000000000000000000bb';
+
+const makeState = (_address: string, _status: ContractSendStatus): ContractDeploymentState => ({
+  deployments: [
+    {
+      id: 'token',
+      txHash: '0x01',
+      address: _address,
+      contractName: 'contracts/Token.sol:Token',
+      blockNumber: 10,
+      gasUsed: '1000',
+      effectiveGasPrice: '2000000000',
+    },
+    { id: 'factory', txHash: '', address: ADDRESS_B },
+  ],
+  calls: [{ id: 'balance', result: '5' }],
+  sends: [
+    { id: 'mint', txHash: '0x02', status: _status, blockNumber: 11, gasUsed: '500', effectiveGasPrice: '2000000000' },
+  ],
+  proxies: [],
+});
+
+describe('DeploymentReport', () => {
+  it('Report', async () => {
+    const report = createDeploymentReport(1, makeState(ADDRESS_A, ContractSendStatus.Executed), {
+      explorerUrl: 'https://etherscan.io/',
+    });
+
+    // sorted & totals
+    expect(report.contracts.map(c => c.id)).to.deep.equal(['factory', 'token']);
+    expect(report.totalGasUsed).to.be.equal('1500');
+    expect(report.totalCost).to.be.equal('3000000000000');
+
+    // rendered with explorer links
+    const markdown = renderMarkdownReport(report);
+    expect(markdown).to.include(`[${ADDRESS_A}](https://etherscan.io/address/${ADDRESS_A})`);
+    expect(markdown).to.include('| mint | executed | [0x02](https://etherscan.io/tx/0x02) | 11 | 500 |');
+    expect(renderHtmlReport(report)).to.include(`<a href="https://etherscan.io/tx/0x01">0x01</a>`);
+  });
+
+  it('Diff', async () => {
+    const previous = makeState(ADDRESS_A, ContractSendStatus.Pending);
+    const current = makeState(ADDRESS_B, ContractSendStatus.Executed);
+    current.calls = [];
+
+    // check
+    const changes = diffDeploymentStates(previous, current);
+    expect(changes.map(c => [c.type, c.id])).to.deep.equal([
+      [DeploymentReportChangeType.Changed, 'token'],
+      [DeploymentReportChangeType.Removed, 'balance'],
+      [DeploymentReportChangeType.Changed, 'mint'],
+    ]);
+    expect(changes[0].after).to.be.equal(ADDRESS_B);
+
+    // same state renders the same report
+    expect(renderMarkdownReport(createDeploymentReport(1, current))).to.be.equal(
+      renderMarkdownReport(createDeploymentReport(1, current))
+    );
+  });
+});
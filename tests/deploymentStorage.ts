@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDeploymentStorage } from '../scripts/deploymentStorage';
+
+describe('DeploymentStorage', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'deployment-storage-'));
+  });
+
+  afterEach(async () => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('Write', async () => {
+    // one backup per run, of the state before it
+    for (let run = 0; run < 4; run++) {
+      const storage = new FileDeploymentStorage(root, 2);
+      for (let n = 1; n <= 2; n++) storage.write(1, 'info.json', `${run}.${n}`);
+    }
+
+    // check
+    expect(fs.readFileSync(`${root}/1/info.json`).toString()).to.be.equal('3.2');
+    expect(fs.readFileSync(`${root}/1/info.json.bak1`).toString()).to.be.equal('2.2');
+    expect(fs.readFileSync(`${root}/1/info.json.bak2`).toString()).to.be.equal('1.2');
+    expect(fs.readdirSync(`${root}/1`)).to.have.members(['info.json', 'info.json.bak1', 'info.json.bak2']);
+  });
+
+  it('Lock', async () => {
+    const storage = new FileDeploymentStorage(root);
+    const lockFile = `${root}/1/info.json.lock`;
+
+    // held by another running process
+    fs.mkdirSync(`${root}/1`, { recursive: true });
+    fs.writeFileSync(lockFile, JSON.stringify({ pid: process.ppid, host: os.hostname(), since: '' }));
+    expect(() => storage.lock(1, 'info.json')).to.throw(/is locked by process/);
+    expect(() => storage.write(1, 'info.json', '{}')).to.throw(/is locked by process/);
+
+    // stale lock of a killed process
+    fs.writeFileSync(lockFile, JSON.stringify({ pid: 2 ** 22 + 1, host: os.hostname(), since: '' }));
+    storage.lock(1, 'info.json');
+    expect(JSON.parse(fs.readFileSync(lockFile).toString()).pid).to.be.equal(process.pid);
+    storage.write(1, 'info.json', '{}');
+
+    // released
+    storage.unlock(1, 'info.json');
+    expect(fs.existsSync(lockFile)).to.be.false;
+  });
+});
@@ -0,0 +1,13 @@
+import { ChildProcess, spawn } from 'child_process';
+
+// separate hardhat node as target chain, stop it with kill()
+export const startNode = async (_port: number): Promise<ChildProcess> => {
+  const node = spawn(process.execPath, ['node_modules/.bin/hardhat', 'node', '--no-deploy', '--port', `${_port}`], {
+    stdio: 'pipe',
+  });
+  await new Promise<void>((resolve, reject) => {
+    node.stdout!.on('data', (_data: Buffer) => _data.toString().includes('Started HTTP') && resolve());
+    node.on('exit', () => reject(new Error('Node stopped')));
+  });
+  return node;
+};
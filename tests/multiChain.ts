@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  ConsistencyIssueKind,
+  MultiChainDeployHelper,
+  MultiChainRunStatus,
+  checkConsistency,
+} from '../scripts/multiChain';
+import { DeterministicDeployType, MemoryDeploymentStorage } from '../scripts/deploymentStorage';
+import { startNode } from './helpers/node';
+
+const ADDRESS_A = '0x00000000000000000000000000000000000000aa';
+const ADDRESS_B = '0x00000000000000000000000000000000000000bb';
+
+describe('MultiChain', () => {
+  it('Consistency', async () => {
+    const deterministic = { type: DeterministicDeployType.Create2, factory: ADDRESS_B, salt: '0x', address: ADDRESS_A };
+    const issues = checkConsistency(
+      [
+        {
+          network: 'mainnet',
+          deployments: [
+            { id: 'factory', txHash: '0x01', address: ADDRESS_A, deterministic },
+            { id: 'token', txHash: '0x02', address: ADDRESS_A },
+            { id: 'vault', txHash: '0x03', address: ADDRESS_A },
+          ],
+        },
+        {
+          network: 'bsc',
+          deployments: [
+            { id: 'factory', txHash: '0x04', address: ADDRESS_A.toUpperCase().replace('0X', '0x'), deterministic },
+            { id: 'token', txHash: '0x05', address: ADDRESS_B },
+          ],
+        },
+      ],
+      ['token', 'vault']
+    );
+
+    // deterministic matches, token differs, vault is missing
+    expect(issues.map(i => [i.kind, i.id])).to.deep.equal([
+      [ConsistencyIssueKind.Mismatch, 'token'],
+      [ConsistencyIssueKind.Missing, 'vault'],
+    ]);
+    expect(issues[0].addresses).to.deep.equal({ mainnet: ADDRESS_A, bsc: ADDRESS_B });
+  });
+
+  it('Run', async () => {
+    // in-process state before the run
+    const before = await (await hre.ethers.getContractFactory('TestERC20')).deploy('PRE', 'Pre');
+
+    const node = await startNode(8545);
+    try {
+      const run = async (_stopOnError: boolean) => {
+        const networks = ['localhost', 'hardhat'].map(network => ({
+          network,
+          options: { storage: new MemoryDeploymentStorage(), silent: true },
+        }));
+        const multiChain = new MultiChainDeployHelper(networks, { stopOnError: _stopOnError, silent: true });
+        return await multiChain.run(async (deploy, network) => {
+          await deploy.deploy(
+            'token',
+            'TestERC20',
+            async () => await (await hre.ethers.getContractFactory('TestERC20')).deploy('TEST', 'Test')
+          );
+          if (network === 'localhost') throw new Error('Failure');
+        });
+      };
+
+      // failed chain doesn't stop the others
+      const result = await run(false);
+      expect(result.runs.map(r => [r.network, r.status])).to.deep.equal([
+        ['localhost', MultiChainRunStatus.Failed],
+        ['hardhat', MultiChainRunStatus.Success],
+      ]);
+      expect(result.runs[0].error).to.equal('Failure');
+
+      // unless stopOnError is set
+      const stopped = await run(true);
+      expect(stopped.runs.map(r => r.status)).to.deep.equal([MultiChainRunStatus.Failed, MultiChainRunStatus.Skipped]);
+    } finally {
+      node.kill();
+    }
+
+    // switched back without losing the in-process chain
+    expect(hre.network.name).to.equal('hardhat');
+    expect(await hre.ethers.provider.getCode(await before.getAddress())).to.not.equal('0x');
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { StorageLayout, StorageLayoutIssueKind, compareStorageLayouts } from '../scripts/storageLayout';
+
+const makeLayout = (_vars: [string, number, string][]): StorageLayout => ({
+  storage: _vars.map(([label, slot, type], i) => ({
+    astId: i,
+    contract: 'A',
+    label,
+    offset: 0,
+    slot: `${slot}`,
+    type,
+  })),
+  types: {
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    't_array(t_uint256)48_storage': { encoding: 'inplace', label: 'uint256[48]', numberOfBytes: '1536' },
+    't_array(t_uint256)49_storage': { encoding: 'inplace', label: 'uint256[49]', numberOfBytes: '1568' },
+    't_array(t_uint256)50_storage': { encoding: 'inplace', label: 'uint256[50]', numberOfBytes: '1600' },
+  },
+});
+
+describe('StorageLayout', () => {
+  const base = makeLayout([
+    ['a', 0, 't_uint256'],
+    ['b', 1, 't_address'],
+    ['__gap', 2, 't_array(t_uint256)50_storage'],
+  ]);
+
+  it('Compatible', async () => {
+    // append into gap
+    const next = makeLayout([
+      ['a', 0, 't_uint256'],
+      ['b', 1, 't_address'],
+      ['c', 2, 't_uint256'],
+      ['__gap', 3, 't_array(t_uint256)49_storage'],
+    ]);
+
+    // check
+    expect(compareStorageLayouts(base, next)).to.be.empty;
+  });
+
+  it('Incompatible', async () => {
+    // reordered
+    const reordered = makeLayout([
+      ['b', 0, 't_address'],
+      ['a', 1, 't_uint256'],
+      ['__gap', 2, 't_array(t_uint256)50_storage'],
+    ]);
+    expect(compareStorageLayouts(base, reordered).map(i => i.kind)).to.include(StorageLayoutIssueKind.Reordered);
+
+    // retyped
+    const retyped = makeLayout([
+      ['a', 0, 't_address'],
+      ['b', 1, 't_address'],
+      ['__gap', 2, 't_array(t_uint256)50_storage'],
+    ]);
+    expect(compareStorageLayouts(base, retyped).map(i => i.kind)).to.deep.equal([StorageLayoutIssueKind.Retyped]);
+
+    // removed
+    const removed = makeLayout([
+      ['a', 0, 't_uint256'],
+      ['__gap', 2, 't_array(t_uint256)50_storage'],
+    ]);
+    expect(compareStorageLayouts(base, removed).map(i => i.kind)).to.deep.equal([StorageLayoutIssueKind.Removed]);
+
+    // gap shrunk too much
+    const gap = makeLayout([
+      ['a', 0, 't_uint256'],
+      ['b', 1, 't_address'],
+      ['c', 2, 't_uint256'],
+      ['__gap', 3, 't_array(t_uint256)48_storage'],
+    ]);
+    expect(compareStorageLayouts(base, gap).map(i => i.kind)).to.deep.equal([StorageLayoutIssueKind.Gap]);
+  });
+});
@@ -9,6 +9,17 @@ export default defineConfig({
     'scripts/testHelpers.ts',
     'scripts/hardhatLedger.ts',
     'scripts/multicall.ts',
+    'scripts/storageLayout.ts',
+    'scripts/bytecode.ts',
+    'scripts/deploymentStorage.ts',
+    'scripts/deployEvents.ts',
+    'scripts/deploymentReport.ts',
+    'scripts/addressBook.ts',
+    'scripts/multiChain.ts',
+    'scripts/deployManifest.ts',
+    'scripts/deploymentPrune.ts',
+    'scripts/accessAudit.ts',
+    'scripts/deploySigner.ts',
   ],
   format: ['cjs'], // Build for commonJS and ESmodules
   dts: true, // Generate declaration file (.d.ts)